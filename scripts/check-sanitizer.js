@@ -0,0 +1,33 @@
+#!/usr/bin/env node
+/**
+ * Check Sanitizer Script
+ * Runs every vector in scripts/xss-corpus.ts through sanitizeHtml (default
+ * options) and exits non-zero if any comes out different from expected.
+ *
+ * Usage: npm run check:sanitizer
+ */
+
+const { loadTsModule } = require('./load-ts-module');
+
+async function main() {
+  const { XSS_CORPUS, findSanitizerFailures } = await loadTsModule('scripts/xss-corpus.ts');
+  const failures = findSanitizerFailures();
+
+  for (const failure of failures) {
+    console.error(`FAIL ${failure.name}`);
+    console.error(`    input:    ${failure.input}`);
+    console.error(`    expected: ${failure.expected}`);
+    console.error(`    actual:   ${failure.actual}`);
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} of ${XSS_CORPUS.length} XSS vectors failed`);
+    process.exit(1);
+  }
+  console.log(`All ${XSS_CORPUS.length} XSS vectors sanitized as expected`);
+}
+
+main().catch((error) => {
+  console.error('Unexpected error:', error);
+  process.exit(1);
+});
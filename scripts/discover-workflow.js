@@ -1,9 +1,11 @@
 #!/usr/bin/env node
 /**
- * CLI tool for discovering Bubble workflow response schemas.
+ * CLI tool for discovering Bubble workflow response schemas, and data type
+ * schemas from Bubble's /meta endpoint.
  *
  * Usage:
  *   npm run discover-workflow <workflow_name> [options]
+ *   npm run discover-workflow --types[=type1,type2] [options]
  *
  * Arguments:
  *   workflow_name          Name of the Bubble workflow to call
@@ -13,9 +15,16 @@
  *   --body='{"key":"val"}' Request body as JSON string (for POST)
  *   --params='{"k":"v"}'   Query params as JSON string (for GET)
  *   --output=<file>        Write TypeScript types to file
+ *   --samples=<file>       Merge with earlier responses saved in file (JSON array),
+ *                          then add this response to it
+ *   --max-enum-values=<n>  Most distinct values for a field to become an enum (default: 5, 0 disables)
+ *   --min-observations=<n> Times a field must be seen for enums and ranges (default: 10)
+ *   --min-value-count=<n> Times every value must be seen for a field to become an enum (default: 2)
+ *   --enforce-ranges       Emit observed ranges as min/max instead of a description
  *   --save-registry        Add/update workflow in registry file
  *   --quiet                Only output the TypeScript types
  *   --direct               Call Bubble directly (skip local API)
+ *   --types[=a,b]          Discover data types instead of a workflow (all types if none given)
  *
  * Examples:
  *   npm run discover-workflow get_user_profile
@@ -23,17 +32,22 @@
  *   npm run discover-workflow list_items --method=GET --params='{"limit":"10"}'
  *   npm run discover-workflow get_user_profile --output=src/types/user.ts
  *   npm run discover-workflow get_user_profile --save-registry
+ *   npm run discover-workflow get_user_profile --body='{"user_id":"123"}' --samples=samples/user.json
+ *   npm run discover-workflow --types
+ *   npm run discover-workflow --types=product,order_item --output=src/types/bubble-data.ts
  *
  * Environment:
  *   Requires BUBBLE_API_KEY in .env.local
  *   Requires BUBBLE_BASE_URL in .env.local (e.g., https://app.creatorcore.co/version-test)
  *
  * Note: This script calls the local Next.js API, so the dev server must be running.
- *       Alternatively, it can call Bubble directly if --direct flag is used.
+ *       Alternatively, it can call Bubble directly if --direct flag is used;
+ *       types are then generated by src/lib/schema-inference.ts, loaded via Vite.
  */
 
 const path = require('path');
 const fs = require('fs');
+const { loadTsModule } = require('./load-ts-module');
 
 // Load environment variables
 require('dotenv').config({ path: path.resolve(__dirname, '../.env.local') });
@@ -47,9 +61,15 @@ function parseArgs(args) {
     body: null,
     params: null,
     output: null,
+    samplesFile: null,
+    maxEnumValues: undefined,
+    minObservations: undefined,
+    minValueCount: undefined,
+    enforceRanges: false,
     saveRegistry: false,
     quiet: false,
     direct: false,
+    types: null,
     help: false,
   };
 
@@ -74,12 +94,30 @@ function parseArgs(args) {
       }
     } else if (arg.startsWith('--output=')) {
       result.output = arg.slice(9);
+    } else if (arg.startsWith('--samples=')) {
+      result.samplesFile = arg.slice(10);
+    } else if (arg.startsWith('--max-enum-values=')) {
+      result.maxEnumValues = Number(arg.slice(18));
+    } else if (arg.startsWith('--min-observations=')) {
+      result.minObservations = Number(arg.slice(19));
+    } else if (arg.startsWith('--min-value-count=')) {
+      result.minValueCount = Number(arg.slice(18));
+    } else if (arg === '--enforce-ranges') {
+      result.enforceRanges = true;
     } else if (arg === '--save-registry') {
       result.saveRegistry = true;
     } else if (arg === '--quiet' || arg === '-q') {
       result.quiet = true;
     } else if (arg === '--direct') {
       result.direct = true;
+    } else if (arg === '--types') {
+      result.types = [];
+    } else if (arg.startsWith('--types=')) {
+      result.types = arg
+        .slice(8)
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean);
     } else if (!arg.startsWith('-') && !result.workflow) {
       result.workflow = arg;
     }
@@ -94,6 +132,7 @@ Bubble Workflow Discovery Tool
 
 Usage:
   npm run discover-workflow <workflow_name> [options]
+  npm run discover-workflow --types[=type1,type2] [options]
 
 Arguments:
   workflow_name          Name of the Bubble workflow to call
@@ -103,9 +142,17 @@ Options:
   --body='{"key":"val"}' Request body as JSON string (for POST)
   --params='{"k":"v"}'   Query params as JSON string (for GET)
   --output=<file>        Write TypeScript types to file
+  --samples=<file>       Merge with earlier responses saved in file (JSON array),
+                         then add this response to it
+  --max-enum-values=<n>  Most distinct values for a field to become an enum (default: 5, 0 disables)
+  --min-observations=<n> Times a field must be seen for enums and ranges (default: 10)
+  --min-value-count=<n> Times every value must be seen for a field to become an enum (default: 2)
+  --enforce-ranges       Emit observed ranges as min/max instead of a description
   --save-registry        Add/update workflow in registry file
   --quiet, -q            Only output the TypeScript types
   --direct               Call Bubble directly (skip local API)
+  --types[=a,b]          Discover data types from Bubble's /meta endpoint
+                         instead of a workflow (all types if none given)
   --help, -h             Show this help message
 
 Examples:
@@ -113,6 +160,9 @@ Examples:
   npm run discover-workflow get_user_profile --body='{"user_id":"123"}'
   npm run discover-workflow list_items --method=GET --params='{"limit":"10"}'
   npm run discover-workflow get_user_profile --output=src/types/user.ts
+  npm run discover-workflow get_user_profile --body='{"user_id":"123"}' --samples=samples/user.json
+  npm run discover-workflow --types
+  npm run discover-workflow --types=product,order_item --output=src/types/bubble-data.ts
 
 Environment:
   Requires BUBBLE_API_KEY in .env.local
@@ -120,161 +170,40 @@ Environment:
 `);
 }
 
-// Schema inference functions (for direct mode)
-function inferJsonSchema(data) {
-  if (data === null || data === undefined) {
-    return { type: 'null' };
-  }
-
-  if (Array.isArray(data)) {
-    if (data.length === 0) {
-      return { type: 'array', items: {} };
-    }
-    return { type: 'array', items: inferJsonSchema(data[0]) };
-  }
-
-  if (typeof data === 'object') {
-    const properties = {};
-    const required = [];
-
-    for (const [key, value] of Object.entries(data)) {
-      properties[key] = inferJsonSchema(value);
-      if (value !== null && value !== undefined) {
-        required.push(key);
-      }
-    }
-
-    return {
-      type: 'object',
-      properties,
-      required: required.length > 0 ? required : undefined,
-    };
-  }
-
-  if (typeof data === 'string') {
-    // Detect common formats
-    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(data)) {
-      return { type: 'string', format: 'uuid' };
-    }
-    if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data)) {
-      return { type: 'string', format: 'email' };
-    }
-    if (/^https?:\/\/[^\s/$.?#].[^\s]*$/i.test(data)) {
-      return { type: 'string', format: 'uri' };
-    }
-    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(data)) {
-      return { type: 'string', format: 'date-time' };
-    }
-    return { type: 'string' };
-  }
-
-  if (typeof data === 'number') {
-    return { type: 'number' };
-  }
-
-  if (typeof data === 'boolean') {
-    return { type: 'boolean' };
-  }
-
-  return {};
+// Schema inference for direct mode: the same module the discover routes use
+function loadSchemaInference() {
+  return loadTsModule('src/lib/schema-inference.ts');
 }
 
-function toPascalCase(str) {
-  return str
-    .split(/[-_]/)
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
-    .join('');
-}
-
-function schemaToTypeString(schema, indent = 0) {
-  const indentStr = '  '.repeat(indent);
-
-  if (schema.type === 'null') return 'null';
-  if (schema.type === 'string') return 'string';
-  if (schema.type === 'number') return 'number';
-  if (schema.type === 'boolean') return 'boolean';
-
-  if (schema.type === 'array') {
-    if (schema.items) {
-      const itemType = schemaToTypeString(schema.items, indent);
-      if (schema.items.type === 'object' && schema.items.properties) {
-        return `Array<${itemType}>`;
-      }
-      return `${itemType}[]`;
-    }
-    return 'unknown[]';
+function loadSamples(file) {
+  const samplesPath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(samplesPath)) {
+    return [];
   }
 
-  if (schema.type === 'object') {
-    if (!schema.properties || Object.keys(schema.properties).length === 0) {
-      return 'Record<string, unknown>';
-    }
-
-    const props = [];
-    for (const [key, propSchema] of Object.entries(schema.properties)) {
-      const isRequired = schema.required?.includes(key) ?? false;
-      const optionalMark = isRequired ? '' : '?';
-      const typeStr = schemaToTypeString(propSchema, indent + 1);
-      const safeKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : `'${key}'`;
-      props.push(`${indentStr}  ${safeKey}${optionalMark}: ${typeStr}`);
-    }
-
-    return `{\n${props.join(';\n')};\n${indentStr}}`;
+  try {
+    const samples = JSON.parse(fs.readFileSync(samplesPath, 'utf8'));
+    return Array.isArray(samples) ? samples : [samples];
+  } catch (e) {
+    console.error(`Error: Invalid JSON in ${file}`);
+    process.exit(1);
   }
-
-  return 'unknown';
 }
 
-function generateTypescript(schema, interfaceName) {
-  return `export interface ${interfaceName} ${schemaToTypeString(schema, 0)}`;
+function saveSamples(file, samples) {
+  const samplesPath = path.resolve(process.cwd(), file);
+  fs.mkdirSync(path.dirname(samplesPath), { recursive: true });
+  fs.writeFileSync(samplesPath, `${JSON.stringify(samples, null, 2)}\n`);
 }
 
-function schemaToZodString(schema, indent = 0) {
-  const indentStr = '  '.repeat(indent);
-  const nextIndent = '  '.repeat(indent + 1);
-
-  if (schema.type === 'null') return 'z.null()';
-
-  if (schema.type === 'string') {
-    let zodStr = 'z.string()';
-    if (schema.format === 'email') zodStr += '.email()';
-    else if (schema.format === 'uri') zodStr += '.url()';
-    else if (schema.format === 'uuid') zodStr += '.uuid()';
-    return zodStr;
-  }
-
-  if (schema.type === 'number') return 'z.number()';
-  if (schema.type === 'boolean') return 'z.boolean()';
-
-  if (schema.type === 'array') {
-    if (schema.items) {
-      return `z.array(${schemaToZodString(schema.items, indent)})`;
-    }
-    return 'z.array(z.unknown())';
-  }
-
-  if (schema.type === 'object') {
-    if (!schema.properties || Object.keys(schema.properties).length === 0) {
-      return 'z.record(z.unknown())';
-    }
-
-    const props = [];
-    for (const [key, propSchema] of Object.entries(schema.properties)) {
-      const zodStr = schemaToZodString(propSchema, indent + 1);
-      const isRequired = schema.required?.includes(key) ?? false;
-      const finalZod = isRequired ? zodStr : `${zodStr}.optional()`;
-      const safeKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : `'${key}'`;
-      props.push(`${nextIndent}${safeKey}: ${finalZod}`);
-    }
-
-    return `z.object({\n${props.join(',\n')},\n${indentStr}})`;
-  }
-
-  return 'z.unknown()';
-}
-
-function generateZod(schema, schemaName) {
-  return `export const ${schemaName} = ${schemaToZodString(schema, 0)};`;
+// The routes return errors as { success: false, error: { code, message, details } }
+function fromApiResponse(data) {
+  if (data.success || !data.error || typeof data.error !== 'object') return data;
+  return {
+    success: false,
+    error: `${data.error.message} (${data.error.code})`,
+    details: data.error.details,
+  };
 }
 
 async function discoverViaApi(args) {
@@ -286,10 +215,15 @@ async function discoverViaApi(args) {
       method: args.method,
       body: args.body,
       params: args.params,
+      samples: args.samples,
+      maxEnumValues: args.maxEnumValues,
+      minObservations: args.minObservations,
+      minValueCount: args.minValueCount,
+      enforceRanges: args.enforceRanges,
     }),
   });
 
-  return response.json();
+  return fromApiResponse(await response.json());
 }
 
 async function discoverDirect(args) {
@@ -345,9 +279,20 @@ async function discoverDirect(args) {
       };
     }
 
-    const schema = inferJsonSchema(data);
-    const interfaceName = `${toPascalCase(args.workflow)}Response`;
-    const schemaName = `${toPascalCase(args.workflow)}ResponseSchema`;
+    const inference = await loadSchemaInference();
+    const samples = args.samples || [];
+    const options = {
+      maxEnumValues: args.maxEnumValues,
+      minObservations: args.minObservations,
+      minValueCount: args.minValueCount,
+      enforceRanges: args.enforceRanges,
+    };
+    const inferred = samples.length
+      ? inference.inferJsonSchemaFromSamples([data, ...samples], options)
+      : inference.inferJsonSchema(data, options);
+    const interfaceName = inference.workflowToInterfaceName(args.workflow);
+    const schemaName = inference.workflowToSchemaName(args.workflow);
+    const schema = inference.extractDefinitions(inferred, interfaceName);
 
     return {
       success: true,
@@ -357,9 +302,100 @@ async function discoverDirect(args) {
       requestBody: args.method === 'POST' ? args.body : undefined,
       requestParams: args.method === 'GET' ? args.params : undefined,
       response: data,
+      sampleCount: 1 + samples.length,
       inferredSchema: schema,
-      typescript: generateTypescript(schema, interfaceName),
-      zodSchema: generateZod(schema, schemaName),
+      imports: inference.generateFormatImports(schema),
+      typescript: inference.generateTypescriptInterface(schema, interfaceName),
+      zodSchema: inference.jsonSchemaToZod(schema, schemaName),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error.message,
+      details: {},
+    };
+  }
+}
+
+async function discoverTypesViaApi(args) {
+  const query = args.types.length > 0 ? `?types=${encodeURIComponent(args.types.join(','))}` : '';
+  const response = await fetch(`http://localhost:3000/api/bubble/discover/types${query}`);
+
+  return fromApiResponse(await response.json());
+}
+
+async function discoverTypesDirect(args) {
+  const apiKey = process.env.BUBBLE_API_KEY;
+  const baseUrl = process.env.BUBBLE_BASE_URL;
+
+  if (!apiKey) {
+    return {
+      success: false,
+      error: 'BUBBLE_API_KEY not configured',
+      details: { hint: 'Add BUBBLE_API_KEY to your .env.local file' },
+    };
+  }
+
+  if (!baseUrl) {
+    return {
+      success: false,
+      error: 'BUBBLE_BASE_URL not configured',
+      details: { hint: 'Add BUBBLE_BASE_URL to your .env.local file (e.g., https://app.creatorcore.co/version-test)' },
+    };
+  }
+
+  const url = `${baseUrl.replace(/\/$/, '')}/api/1.1/meta`;
+
+  try {
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${apiKey}` } });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `Bubble API error: ${response.status}`,
+        details: { response: data },
+      };
+    }
+
+    if (!data || !data.types) {
+      return {
+        success: false,
+        error: 'Bubble did not return data type metadata',
+        details: { hint: 'Enable the Data API in Settings > API and expose the data types to discover' },
+      };
+    }
+
+    const inference = await loadSchemaInference();
+    const only = args.types.length > 0 ? args.types : undefined;
+    const schemas = inference.bubbleMetaToJsonSchemas(data, only);
+
+    const missing = args.types.filter((name) => !schemas[name]);
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: `Unknown data type: ${missing.join(', ')}`,
+        details: { available: Object.keys(data.types) },
+      };
+    }
+
+    const types = Object.entries(schemas).map(([type, schema]) => ({
+      type,
+      display: data.types[type]?.display ?? type,
+      exposed: data.get?.includes(type) ?? false,
+      schema,
+      imports: inference.generateFormatImports(schema),
+      typescript: inference.generateTypescriptInterface(schema, inference.dataTypeToInterfaceName(type)),
+      zodSchema: inference.jsonSchemaToZod(schema, inference.dataTypeToSchemaName(type)),
+    }));
+
+    return {
+      success: true,
+      bubbleUrl: url,
+      types,
+      imports: inference.generateFormatImports(...Object.values(schemas)),
+      typescript: types.map((entry) => entry.typescript).join('\n\n'),
+      zodSchema: types.map((entry) => entry.zodSchema).join('\n\n'),
     };
   } catch (error) {
     return {
@@ -370,6 +406,80 @@ async function discoverDirect(args) {
   }
 }
 
+async function discoverTypes(args) {
+  if (!args.quiet) {
+    console.log(`\nDiscovering data types: ${args.types.length > 0 ? args.types.join(', ') : 'all'}\n`);
+  }
+
+  let result;
+  if (args.direct) {
+    if (!args.quiet) console.log('Calling Bubble directly...\n');
+    result = await discoverTypesDirect(args);
+  } else {
+    if (!args.quiet) console.log('Calling via local API (ensure dev server is running)...\n');
+    try {
+      result = await discoverTypesViaApi(args);
+    } catch (error) {
+      if (error.cause?.code === 'ECONNREFUSED' || error.code === 'ECONNREFUSED') {
+        console.error('Error: Cannot connect to localhost:3000');
+        console.error('Make sure the dev server is running (npm run dev)');
+        console.error('Or use --direct flag to call Bubble directly');
+        process.exit(1);
+      }
+      throw error;
+    }
+  }
+
+  if (!result.success) {
+    console.error('Error:', result.error);
+    if (result.details) {
+      console.error('Details:', JSON.stringify(result.details, null, 2));
+    }
+    process.exit(1);
+  }
+
+  if (args.quiet) {
+    console.log(result.typescript);
+  } else {
+    console.log('URL:', result.bubbleUrl);
+    for (const entry of result.types) {
+      const note = entry.exposed ? '' : ' (not exposed to the Data API)';
+      console.log(`\n=== ${entry.display} [${entry.type}]${note} ===`);
+      console.log(entry.typescript);
+      console.log('');
+      console.log(entry.zodSchema);
+    }
+  }
+
+  if (args.output) {
+    const outputPath = path.resolve(process.cwd(), args.output);
+    const outputDir = path.dirname(outputPath);
+
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const typesFlag = args.types.length > 0 ? `--types=${args.types.join(',')}` : '--types';
+    const content = `/**
+ * Auto-generated types for Bubble data types: ${result.types.map((entry) => entry.type).join(', ')}
+ * Generated at: ${new Date().toISOString()}
+ *
+ * Regenerate with:
+ *   npm run discover-workflow ${typesFlag} --output=${args.output}
+ */
+
+import { z } from 'zod';${result.imports ? `\n${result.imports}` : ''}
+
+${result.typescript}
+
+${result.zodSchema}
+`;
+
+    fs.writeFileSync(outputPath, content);
+    console.log(`\nTypes written to: ${outputPath}`);
+  }
+}
+
 async function main() {
   const args = parseArgs(process.argv.slice(2));
 
@@ -378,6 +488,11 @@ async function main() {
     process.exit(0);
   }
 
+  if (args.types) {
+    await discoverTypes(args);
+    return;
+  }
+
   if (!args.workflow) {
     console.error('Error: Missing workflow name');
     console.error('Usage: npm run discover-workflow <workflow_name> [options]');
@@ -393,6 +508,12 @@ async function main() {
     console.log('');
   }
 
+  // Load earlier responses to merge with
+  if (args.samplesFile) {
+    args.samples = loadSamples(args.samplesFile);
+    if (!args.quiet) console.log(`Merging with ${args.samples.length} earlier response(s) from ${args.samplesFile}\n`);
+  }
+
   // Call discovery
   let result;
   if (args.direct) {
@@ -428,6 +549,7 @@ async function main() {
     console.log('URL:', result.bubbleUrl);
     console.log('\n=== Response ===');
     console.log(JSON.stringify(result.response, null, 2));
+    if (result.sampleCount > 1) console.log(`\nInferred from ${result.sampleCount} responses`);
     console.log('\n=== Inferred Schema ===');
     console.log(JSON.stringify(result.inferredSchema, null, 2));
     console.log('\n=== TypeScript Interface ===');
@@ -436,6 +558,12 @@ async function main() {
     console.log(result.zodSchema);
   }
 
+  // Keep this response for the next run
+  if (args.samplesFile) {
+    saveSamples(args.samplesFile, [...args.samples, result.response]);
+    if (!args.quiet) console.log(`\nResponse added to ${args.samplesFile}`);
+  }
+
   // Save to file if requested
   if (args.output) {
     const outputPath = path.resolve(process.cwd(), args.output);
@@ -450,10 +578,10 @@ async function main() {
  * Generated at: ${new Date().toISOString()}
  *
  * Regenerate with:
- *   npm run discover-workflow ${args.workflow}${args.body ? ` --body='${JSON.stringify(args.body)}'` : ''}${args.params ? ` --params='${JSON.stringify(args.params)}'` : ''} --output=${args.output}
+ *   npm run discover-workflow ${args.workflow}${args.body ? ` --body='${JSON.stringify(args.body)}'` : ''}${args.params ? ` --params='${JSON.stringify(args.params)}'` : ''}${args.samplesFile ? ` --samples=${args.samplesFile}` : ''} --output=${args.output}
  */
 
-import { z } from 'zod';
+import { z } from 'zod';${result.imports ? `\n${result.imports}` : ''}
 
 ${result.typescript}
 
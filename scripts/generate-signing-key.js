@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+/**
+ * Generate Signing Key CLI
+ * Creates a private JWK for signing access tokens (RS256 or ES256)
+ *
+ * Usage: node scripts/generate-signing-key.js [--alg=ES256|RS256] [--kid=<id>] [--jwks=<file>]
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// Simple argument parser
+function parseArgs(args) {
+  const result = {
+    alg: 'ES256',
+    kid: null,
+    jwks: null,
+    help: false,
+  };
+
+  for (const arg of args) {
+    if (arg === '--help' || arg === '-h') {
+      result.help = true;
+    } else if (arg.startsWith('--alg=')) {
+      result.alg = arg.slice(6).toUpperCase();
+    } else if (arg.startsWith('--kid=')) {
+      result.kid = arg.slice(6);
+    } else if (arg.startsWith('--jwks=')) {
+      result.jwks = arg.slice(7);
+    }
+  }
+
+  return result;
+}
+
+const argv = parseArgs(process.argv.slice(2));
+
+if (argv.help) {
+  console.log(`
+Usage: npm run generate-signing-key -- [options]
+
+Generates a new private JWK for signing access tokens.
+
+Options:
+  --alg=ES256|RS256   Signing algorithm (default: ES256)
+  --kid=<id>          Key ID (default: <alg>-<date>)
+  --jwks=<file>       Append the key to a JWKS file instead of printing it
+  --help, -h          Show this help message
+
+Rotation:
+  1. Generate a new key into your JWKS file (--jwks=keys/access-tokens.json)
+     and deploy: the key is published but doesn't sign anything yet
+  2. Once other backends have refetched /.well-known/jwks.json (cached for up
+     to 5 minutes), set ACCESS_TOKEN_SIGNING_KID to the new kid and deploy
+  3. Remove the old key once every token it signed has expired
+`);
+  process.exit(0);
+}
+
+const alg = argv.alg;
+if (alg !== 'ES256' && alg !== 'RS256') {
+  console.error('Error: --alg must be ES256 or RS256');
+  process.exit(1);
+}
+
+const kid = argv.kid || `${alg.toLowerCase()}-${new Date().toISOString().slice(0, 10)}`;
+
+const { privateKey } =
+  alg === 'ES256'
+    ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const jwk = { ...privateKey.export({ format: 'jwk' }), kid, alg, use: 'sig' };
+
+if (!argv.jwks) {
+  console.log(JSON.stringify({ keys: [jwk] }, null, 2));
+  process.exit(0);
+}
+
+const jwksPath = path.resolve(argv.jwks);
+let jwks = { keys: [] };
+if (fs.existsSync(jwksPath)) {
+  jwks = JSON.parse(fs.readFileSync(jwksPath, 'utf-8'));
+}
+
+if (jwks.keys.some((key) => key.kid === kid)) {
+  console.error(`Error: A key with kid "${kid}" already exists in ${argv.jwks}`);
+  process.exit(1);
+}
+
+// Appended, so the signer (the first key unless ACCESS_TOKEN_SIGNING_KID is set)
+// doesn't change before other backends have fetched the new public key
+jwks.keys.push(jwk);
+fs.mkdirSync(path.dirname(jwksPath), { recursive: true });
+fs.writeFileSync(jwksPath, JSON.stringify(jwks, null, 2) + '\n');
+
+console.log(`Added key "${kid}" (${alg}) to ${argv.jwks}`);
+if (jwks.keys.length > 1) {
+  console.log('Deploy it first so it is published at /.well-known/jwks.json, then');
+  console.log(`set ACCESS_TOKEN_SIGNING_KID=${kid} to start signing with it.`);
+}
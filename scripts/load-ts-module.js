@@ -0,0 +1,33 @@
+/**
+ * TypeScript Module Loader
+ * Imports the app's TypeScript modules (including `@/` imports) from scripts
+ * with Vite's module runner, so scripts reuse src/ instead of copying it.
+ *
+ * Usage:
+ *   const { loadTsModule } = require('./load-ts-module');
+ *   const { sanitizeHtml } = await loadTsModule('src/lib/sanitize.ts');
+ */
+
+const { runnerImport } = require('vite');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '..');
+
+/**
+ * Load a TypeScript module
+ * @param {string} file - Path relative to the repository root
+ */
+async function loadTsModule(file) {
+  const { module } = await runnerImport(path.resolve(ROOT, file), {
+    configFile: false,
+    logLevel: 'error',
+    resolve: {
+      alias: {
+        '@': path.resolve(ROOT, 'src'),
+      },
+    },
+  });
+  return module;
+}
+
+module.exports = { loadTsModule };
@@ -0,0 +1,357 @@
+/**
+ * XSS Corpus
+ *
+ * Known XSS vectors and what `sanitizeHtml` must turn each into, with the
+ * default options. Check them after changing the sanitizer or its defaults:
+ *
+ *   npm run check:sanitizer
+ *
+ * The expected output follows how browsers parse the input, so some vectors
+ * keep harmless markup (e.g. an <img> without its onerror).
+ */
+
+import { sanitizeHtml } from '@/lib/sanitize';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface XssVector {
+  /** What the vector tries */
+  name: string;
+
+  /** Untrusted HTML */
+  input: string;
+
+  /** Sanitized output */
+  expected: string;
+}
+
+export interface SanitizerFailure extends XssVector {
+  /** What the sanitizer returned instead */
+  actual: string;
+}
+
+// ============================================================================
+// Vectors
+// ============================================================================
+
+export const XSS_CORPUS: readonly XssVector[] = [
+  {
+    name: 'script tag',
+    input: '<script>alert(1)</script>',
+    expected: '',
+  },
+  {
+    name: 'script tag, mixed case',
+    input: '<ScRiPt>alert(1)</sCrIpT>',
+    expected: '',
+  },
+  {
+    name: 'script with attributes',
+    input: '<script src="https://evil.example/x.js"></script>',
+    expected: '',
+  },
+  {
+    name: 'self-closing script',
+    input: '<script/>alert(1)</script>',
+    expected: '',
+  },
+  {
+    name: 'unterminated script',
+    input: '<script>alert(1)',
+    expected: '',
+  },
+  {
+    name: 'script end tag inside string',
+    input: '<script>var s = \'</scriptx>\'; alert(1)</script>ok',
+    expected: 'ok',
+  },
+  {
+    name: 'nested script break-out',
+    input: '<scr<script>ipt>alert(1)</script>',
+    expected: 'ipt&gt;alert(1)',
+  },
+  {
+    name: 'img onerror',
+    input: '<img src=x onerror=alert(1)>',
+    expected: '<img src="x">',
+  },
+  {
+    name: 'img onerror, no quotes or spaces',
+    input: '<img/src=x/onerror=alert(1)>',
+    expected: '<img src="x/onerror=alert(1)">',
+  },
+  {
+    name: 'svg onload',
+    input: '<svg onload=alert(1)>',
+    expected: '',
+  },
+  {
+    name: 'self-closing svg onload',
+    input: '<svg/onload=alert(1)>',
+    expected: '',
+  },
+  {
+    name: 'svg with script',
+    input: '<svg><script>alert(1)</script></svg>',
+    expected: '',
+  },
+  {
+    name: 'math with link',
+    input: '<math><mtext><a href="javascript:alert(1)">x</a></mtext></math>',
+    expected: '',
+  },
+  {
+    name: 'body onload',
+    input: '<body onload=alert(1)>',
+    expected: '',
+  },
+  {
+    name: 'iframe',
+    input: '<iframe src="javascript:alert(1)"></iframe>',
+    expected: '',
+  },
+  {
+    name: 'iframe srcdoc',
+    input: '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+    expected: '',
+  },
+  {
+    name: 'object data',
+    input: '<object data="javascript:alert(1)"></object>',
+    expected: '',
+  },
+  {
+    name: 'embed',
+    input: '<embed src="javascript:alert(1)">',
+    expected: '',
+  },
+  {
+    name: 'javascript href',
+    input: '<a href="javascript:alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, mixed case',
+    input: '<a href="JaVaScRiPt:alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, leading space and control characters',
+    input: '<a href=" \u0001javascript:alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, embedded tab',
+    input: '<a href="jav\tascript:alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, decimal references',
+    input: '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, hex references without semicolons',
+    input: '<a href="&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74&#x3A;alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, padded references',
+    input: '<a href="&#0000106avascript:alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, named colon',
+    input: '<a href="javascript&colon;alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'javascript href, named tab',
+    input: '<a href="java&Tab;script:alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'vbscript href',
+    input: '<a href="vbscript:msgbox(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'data URL href',
+    input: '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'data URL img',
+    input: '<img src="data:image/svg+xml,<svg onload=alert(1)>">',
+    expected: '<img>',
+  },
+  {
+    name: 'unquoted attribute break-out',
+    input: '<a href=x onmouseover=alert(1)>x</a>',
+    expected: '<a href="x">x</a>',
+  },
+  {
+    name: 'quoted attribute break-out',
+    input: '<a title=\'" onmouseover=alert(1) x="\'>x</a>',
+    expected: '<a title="&quot; onmouseover=alert(1) x=&quot;">x</a>',
+  },
+  {
+    name: 'encoded quote in attribute',
+    input: '<a title="&quot; onmouseover=&quot;alert(1)">x</a>',
+    expected: '<a title="&quot; onmouseover=&quot;alert(1)">x</a>',
+  },
+  {
+    name: 'style tag',
+    input: '<style>body{background:url(javascript:alert(1))}</style>',
+    expected: '',
+  },
+  {
+    name: 'style attribute',
+    input: '<div style="background:url(javascript:alert(1))">x</div>',
+    expected: '<div>x</div>',
+  },
+  {
+    name: 'form action',
+    input: '<form action="javascript:alert(1)"><button>x</button></form>',
+    expected: 'x',
+  },
+  {
+    name: 'button formaction',
+    input: '<button formaction="javascript:alert(1)">x</button>',
+    expected: 'x',
+  },
+  {
+    name: 'meta refresh',
+    input: '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+    expected: '',
+  },
+  {
+    name: 'base href',
+    input: '<base href="javascript:alert(1)//">',
+    expected: '',
+  },
+  {
+    name: 'link import',
+    input: '<link rel="import" href="https://evil.example/x.html">',
+    expected: '',
+  },
+  {
+    name: 'conditional comment',
+    input: '<!--[if gte IE 4]><script>alert(1)</script><![endif]-->',
+    expected: '',
+  },
+  {
+    name: 'comment break-out',
+    input: '<!--><img src=x onerror=alert(1)>-->',
+    expected: '<img src="x">--&gt;',
+  },
+  {
+    name: 'cdata',
+    input: '<![CDATA[<script>alert(1)</script>]]>',
+    expected: 'alert(1)]]&gt;',
+  },
+  {
+    name: 'noscript break-out',
+    input: '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+    expected: '<img src="x">"&gt;',
+  },
+  {
+    name: 'textarea break-out',
+    input: '<textarea><img src=x onerror=alert(1)></textarea>',
+    expected: '',
+  },
+  {
+    name: 'title break-out',
+    input: '<title></title><img src=x onerror=alert(1)>',
+    expected: '<img src="x">',
+  },
+  {
+    name: 'template content',
+    input: '<template><img src=x onerror=alert(1)></template>',
+    expected: '',
+  },
+  {
+    name: 'details ontoggle',
+    input: '<details open ontoggle=alert(1)>',
+    expected: '',
+  },
+  {
+    name: 'input autofocus onfocus',
+    input: '<input autofocus onfocus=alert(1)>',
+    expected: '',
+  },
+  {
+    name: 'marquee onstart',
+    input: '<marquee onstart=alert(1)>x</marquee>',
+    expected: 'x',
+  },
+  {
+    name: 'unterminated tag',
+    input: '<img src=x onerror=alert(1)',
+    expected: '',
+  },
+  {
+    name: 'slash before attributes',
+    input: '<a/href="javascript:alert(1)">x</a>',
+    expected: '<a>x</a>',
+  },
+  {
+    name: 'duplicate attribute',
+    input: '<a href="https://ok.example" href="javascript:alert(1)">x</a>',
+    expected: '<a href="https://ok.example">x</a>',
+  },
+  {
+    name: 'plaintext',
+    input: '<plaintext><img src=x onerror=alert(1)>',
+    expected: '',
+  },
+  {
+    name: 'escaped markup stays text',
+    input: '&lt;script&gt;alert(1)&lt;/script&gt;',
+    expected: '&lt;script&gt;alert(1)&lt;/script&gt;',
+  },
+  {
+    name: 'safe rich text',
+    input: '<p>Hello <strong>world</strong> <a href="https://example.com">link</a></p>',
+    expected: '<p>Hello <strong>world</strong> <a href="https://example.com">link</a></p>',
+  },
+  {
+    name: 'relative and mailto links',
+    input: '<a href="/profile">me</a> <a href="mailto:a@b.co">mail</a>',
+    expected: '<a href="/profile">me</a> <a href="mailto:a@b.co">mail</a>',
+  },
+  {
+    name: 'plain text with equals',
+    input: 'configuration=enabled, onload=fine',
+    expected: 'configuration=enabled, onload=fine',
+  },
+  {
+    name: 'comparison operators',
+    input: 'a < b && c > d',
+    expected: 'a &lt; b && c &gt; d',
+  },
+];
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * Run every vector through a sanitizer and return the ones it got wrong
+ *
+ * @param sanitize - Sanitizer to check (defaults to sanitizeHtml with default options)
+ */
+export function findSanitizerFailures(
+  sanitize: (html: string) => string = (html) => sanitizeHtml(html)
+): SanitizerFailure[] {
+  const failures: SanitizerFailure[] = [];
+  for (const vector of XSS_CORPUS) {
+    const actual = sanitize(vector.input);
+    if (actual !== vector.expected) {
+      failures.push({ ...vector, actual });
+    }
+  }
+  return failures;
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getPublicJwks } from '@/lib/keys';
+
+/**
+ * Public keys for verifying access tokens
+ * GET /.well-known/jwks.json
+ *
+ * Lists every configured key, including ones being rotated out, so tokens
+ * signed by either key verify during the overlap window.
+ */
+export async function GET() {
+  try {
+    const jwks = await getPublicJwks();
+
+    return NextResponse.json(jwks, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'public, max-age=300, s-maxage=300',
+      },
+    });
+  } catch (error) {
+    console.error('JWKS error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Signing keys are misconfigured',
+        code: 'SERVER_CONFIG_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handle CORS preflight
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
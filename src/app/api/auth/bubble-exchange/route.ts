@@ -1,115 +1,136 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exchangeToken } from '@/lib/auth';
-import type { TokenExchangeRequest, TokenExchangeResponse } from '@/shared/bubble';
+import { decodeJwt } from 'jose';
+import { exchangeToken, TokenVerificationError } from '@/lib/auth';
+import { getRequestAppName } from '@/lib/tenants';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import {
+  checkLockout,
+  checkRateLimits,
+  getClientIp,
+  rateLimitHeaders,
+  recordFailure,
+  RATE_LIMITS,
+  SHARED_CLIENT_KEY,
+  SIGNATURE_LOCKOUT,
+  type RateLimitResult,
+} from '@/lib/rate-limit';
+import { errorResponse, RateLimitError, ValidationError } from '@/lib/errors';
+import type { ApiResponse, TokenExchangeRequest, TokenExchangeResponse } from '@/shared/bubble';
+
+const cors: CorsOptions = { methods: ['POST'] };
 
 /**
  * Handle CORS preflight requests
  */
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Bubble-App-Name',
-      'Access-Control-Max-Age': '86400',
-    },
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, cors);
+}
+
+/**
+ * Build a 429 response for a throttled or locked-out caller
+ */
+function rateLimited(
+  result: RateLimitResult,
+  corsHeaders: Record<string, string>
+): NextResponse<ApiResponse<never>> {
+  const error = new RateLimitError('Too many requests, try again later', {
+    retryAfter: result.retryAfter,
   });
+  return errorResponse(error, { ...corsHeaders, ...rateLimitHeaders(result) });
+}
+
+/**
+ * Get the unverified `sub` claim, used only as a rate limit key
+ */
+function peekSubject(token: string): string | null {
+  try {
+    const { sub } = decodeJwt(token);
+    return typeof sub === 'string' ? sub : null;
+  } catch {
+    return null;
+  }
 }
 
 /**
  * Exchange a Bubble JWT for a Next.js access token
  *
  * POST /api/auth/bubble-exchange
+ * Headers: X-Bubble-App-Name: <app> (required when multiple Bubble apps are configured)
  * Body: { token: string }
  *
  * Returns: { accessToken: string, expiresIn: number, user?: {...} }
+ * Errors: { success: false, error: { code, message } }
+ *
+ * Throttled per client IP, Bubble app and Bubble user. Clients that repeatedly
+ * send tokens with bad signatures are locked out for a while. Without a
+ * trusted client IP (see getClientIp) the per-IP limit and the lockout are
+ * skipped, since one caller would otherwise lock out everyone.
  */
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<TokenExchangeResponse | { error: string; code: string }>> {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Bubble-App-Name',
-  };
+): Promise<NextResponse<TokenExchangeResponse | ApiResponse<never>>> {
+  const corsHeaders = getCorsHeaders(request, cors);
+
+  const ip = getClientIp(request);
+  const clientIp = ip === SHARED_CLIENT_KEY ? null : ip;
+  const appName = getRequestAppName(request);
 
   try {
+    const lockout = clientIp && (await checkLockout(SIGNATURE_LOCKOUT, clientIp));
+    if (lockout) {
+      return rateLimited(lockout, corsHeaders);
+    }
+
     // Parse request body
     let body: TokenExchangeRequest;
     try {
       body = await request.json();
     } catch {
-      return NextResponse.json(
-        {
-          error: 'Invalid JSON body',
-          code: 'INVALID_REQUEST',
-        },
-        { status: 400, headers: corsHeaders }
-      );
+      throw new ValidationError('Invalid JSON body', { code: 'INVALID_REQUEST' });
     }
 
     // Validate token is provided
     if (!body.token || typeof body.token !== 'string') {
-      return NextResponse.json(
-        {
-          error: 'Token is required',
-          code: 'MISSING_TOKEN',
-        },
-        { status: 400, headers: corsHeaders }
-      );
+      throw new ValidationError('Token is required', { code: 'MISSING_TOKEN' });
     }
 
     // Validate token format (basic JWT structure check)
     const parts = body.token.split('.');
     if (parts.length !== 3) {
-      return NextResponse.json(
-        {
-          error: 'Token must be a valid JWT',
-          code: 'INVALID_TOKEN_FORMAT',
-        },
-        { status: 400, headers: corsHeaders }
-      );
+      throw new ValidationError('Token must be a valid JWT', { code: 'INVALID_TOKEN_FORMAT' });
+    }
+
+    const subject = peekSubject(body.token);
+    const limit = await checkRateLimits([
+      { rule: RATE_LIMITS.exchangeByIp, key: clientIp },
+      { rule: RATE_LIMITS.exchangeByApp, key: appName ?? 'default' },
+      { rule: RATE_LIMITS.exchangeBySubject, key: subject && `${appName ?? ''}:${subject}` },
+    ]);
+    if (!limit.allowed) {
+      return rateLimited(limit, corsHeaders);
     }
 
     // Exchange the token
     try {
-      const result = await exchangeToken(body.token);
+      const result = await exchangeToken(body.token, {
+        appName,
+        origin: request.headers.get('Origin'),
+      });
 
-      return NextResponse.json(result, { status: 200, headers: corsHeaders });
+      return NextResponse.json(result, {
+        status: 200,
+        headers: { ...corsHeaders, ...rateLimitHeaders(limit) },
+      });
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Token exchange failed';
-
-      // Determine appropriate error code
-      let code = 'TOKEN_EXCHANGE_FAILED';
-      let status = 401;
-
-      if (message.includes('expired')) {
-        code = 'TOKEN_EXPIRED';
-      } else if (message.includes('signature')) {
-        code = 'INVALID_SIGNATURE';
-      } else if (message.includes('JWT_SECRET')) {
-        code = 'SERVER_CONFIG_ERROR';
-        status = 500;
+      if (clientIp && error instanceof TokenVerificationError && error.code === 'INVALID_SIGNATURE') {
+        const lockout = await recordFailure(SIGNATURE_LOCKOUT, clientIp);
+        if (lockout) {
+          return rateLimited(lockout, corsHeaders);
+        }
       }
-
-      return NextResponse.json(
-        {
-          error: message,
-          code,
-        },
-        { status, headers: corsHeaders }
-      );
+      throw error;
     }
   } catch (error) {
-    console.error('Token exchange error:', error);
-
-    return NextResponse.json(
-      {
-        error: 'An unexpected error occurred',
-        code: 'INTERNAL_ERROR',
-      },
-      { status: 500, headers: corsHeaders }
-    );
+    return errorResponse(error, corsHeaders);
   }
 }
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenGrants, isIntrospectionCaller, verifyAccessToken } from '@/lib/auth';
+import { getRequestAppName } from '@/lib/tenants';
+import type { TokenIntrospectionResponse } from '@/shared/bubble';
+
+type IntrospectionError = { error: string; error_description: string };
+
+/**
+ * Read `token` from a form-encoded (RFC 7662) or JSON body
+ */
+async function readToken(request: NextRequest): Promise<string | null> {
+  const contentType = request.headers.get('Content-Type') ?? '';
+
+  try {
+    if (contentType.includes('application/json')) {
+      const body = await request.json();
+      return typeof body?.token === 'string' ? body.token : null;
+    }
+
+    const form = await request.formData();
+    const token = form.get('token');
+    return typeof token === 'string' ? token : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether an access token is active (RFC 7662)
+ *
+ * POST /api/auth/introspect
+ * Headers: Authorization: Bearer <INTROSPECTION_SECRET>
+ *          X-Bubble-App-Name: <app> (optional; restricts to tokens for that app)
+ * Body: token=<accessToken> (form-encoded) or { token: string } (JSON)
+ *
+ * Returns: { active: true, sub, scope, client_id, exp, iat, ... } or { active: false }
+ *
+ * For backend-to-backend use; no CORS headers are sent. Only access tokens
+ * are introspected, so refresh tokens always report inactive.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<TokenIntrospectionResponse | IntrospectionError>> {
+  const noStore = { 'Cache-Control': 'no-store' };
+
+  if (!process.env.INTROSPECTION_SECRET) {
+    console.error('Token introspection called but INTROSPECTION_SECRET is not set');
+    return NextResponse.json(
+      {
+        error: 'server_error',
+        error_description: 'Token introspection is not configured',
+      },
+      { status: 500, headers: noStore }
+    );
+  }
+
+  if (!isIntrospectionCaller(request)) {
+    return NextResponse.json(
+      {
+        error: 'invalid_client',
+        error_description: 'Missing or invalid introspection credentials',
+      },
+      { status: 401, headers: { ...noStore, 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  const token = await readToken(request);
+  if (!token) {
+    return NextResponse.json(
+      {
+        error: 'invalid_request',
+        error_description: 'The token parameter is required',
+      },
+      { status: 400, headers: noStore }
+    );
+  }
+
+  try {
+    const payload = await verifyAccessToken(token, getRequestAppName(request));
+    const { roles, scopes } = getTokenGrants(payload);
+
+    return NextResponse.json(
+      {
+        active: true,
+        token_type: 'Bearer',
+        sub: payload.sub,
+        jti: payload.jti,
+        exp: payload.exp,
+        iat: payload.iat,
+        ...(payload.app && { client_id: payload.app }),
+        ...(payload.email && { username: payload.email }),
+        ...(scopes.length > 0 && { scope: scopes.join(' ') }),
+        ...(roles.length > 0 && { roles }),
+        ...(payload.bubbleUserId && { bubble_user_id: payload.bubbleUserId }),
+      },
+      { status: 200, headers: noStore }
+    );
+  } catch {
+    // Expired, revoked, malformed and foreign tokens all look the same to the caller
+    return NextResponse.json({ active: false }, { status: 200, headers: noStore });
+  }
+}
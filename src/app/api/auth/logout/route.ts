@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { revokeAccessToken, revokeRefreshToken } from '@/lib/auth';
+import { getRequestAppName } from '@/lib/tenants';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import { withAuth } from '@/lib/with-auth';
+import { errorResponse } from '@/lib/errors';
+import type { ApiResponse, LogoutRequest } from '@/shared/bubble';
+
+const cors: CorsOptions = { methods: ['POST'] };
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, cors);
+}
+
+/**
+ * Revoke the caller's access token (and optionally its refresh token family)
+ *
+ * POST /api/auth/logout
+ * Headers: Authorization: Bearer <accessToken>
+ * Body (optional): { refreshToken?: string }
+ *
+ * Returns: { success: true }
+ */
+export const POST = withAuth(
+  async (request, { auth }): Promise<NextResponse<ApiResponse>> => {
+    const corsHeaders = getCorsHeaders(request, cors);
+
+    try {
+      // Body is optional; an empty or non-JSON body just skips refresh revocation
+      let body: LogoutRequest = {};
+      try {
+        body = await request.json();
+      } catch {
+        body = {};
+      }
+
+      await revokeAccessToken(auth);
+
+      if (body.refreshToken && typeof body.refreshToken === 'string') {
+        try {
+          await revokeRefreshToken(body.refreshToken, getRequestAppName(request));
+        } catch {
+          // An invalid or expired refresh token can't be used anyway
+        }
+      }
+
+      return NextResponse.json({ success: true }, { status: 200, headers: corsHeaders });
+    } catch (error) {
+      return errorResponse(error, corsHeaders);
+    }
+  },
+  { cors }
+);
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshTokens } from '@/lib/auth';
+import { getRequestAppName } from '@/lib/tenants';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import { errorResponse, ValidationError } from '@/lib/errors';
+import type { ApiResponse, TokenRefreshRequest, TokenExchangeResponse } from '@/shared/bubble';
+
+const cors: CorsOptions = { methods: ['POST'] };
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, cors);
+}
+
+/**
+ * Swap a refresh token for a new access/refresh token pair
+ *
+ * POST /api/auth/refresh
+ * Body: { refreshToken: string }
+ *
+ * Returns: { accessToken: string, expiresIn: number, refreshToken: string, refreshExpiresIn: number, user?: {...} }
+ * Errors: { success: false, error: { code, message } }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<TokenExchangeResponse | ApiResponse<never>>> {
+  const corsHeaders = getCorsHeaders(request, cors);
+
+  try {
+    // Parse request body
+    let body: TokenRefreshRequest;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Invalid JSON body', { code: 'INVALID_REQUEST' });
+    }
+
+    // Validate refresh token is provided
+    if (!body.refreshToken || typeof body.refreshToken !== 'string') {
+      throw new ValidationError('Refresh token is required', { code: 'MISSING_TOKEN' });
+    }
+
+    // Rotate the refresh token
+    const result = await refreshTokens(body.refreshToken, {
+      appName: getRequestAppName(request),
+      origin: request.headers.get('Origin'),
+    });
+
+    return NextResponse.json(result, { status: 200, headers: corsHeaders });
+  } catch (error) {
+    return errorResponse(error, corsHeaders);
+  }
+}
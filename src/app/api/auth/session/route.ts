@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getTokenGrants } from '@/lib/auth';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import { withAuth } from '@/lib/with-auth';
+import type { ApiResponse, SessionInfo } from '@/shared/bubble';
+
+const cors: CorsOptions = { methods: ['GET'] };
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, cors);
+}
+
+/**
+ * Describe the caller's access token
+ *
+ * GET /api/auth/session
+ * Headers: Authorization: Bearer <accessToken>
+ *
+ * Returns: { user: {...}, app, issuedAt, expiresAt, expiresIn, roles, scopes }
+ */
+export const GET = withAuth(
+  async (request, { auth }): Promise<NextResponse<ApiResponse<SessionInfo>>> => {
+    const { roles, scopes } = getTokenGrants(auth);
+    const now = Math.floor(Date.now() / 1000);
+    const exp = auth.exp ?? now;
+
+    const session: SessionInfo = {
+      user: {
+        id: auth.sub,
+        email: auth.email ?? null,
+        bubbleUserId: auth.bubbleUserId ?? null,
+      },
+      app: auth.app ?? null,
+      issuedAt: new Date((auth.iat ?? now) * 1000).toISOString(),
+      expiresAt: new Date(exp * 1000).toISOString(),
+      expiresIn: Math.max(0, exp - now),
+      roles,
+      scopes,
+    };
+
+    return NextResponse.json(
+      { success: true, data: session },
+      {
+        status: 200,
+        // The response describes one token, so it must not be cached
+        headers: { ...getCorsHeaders(request, cors), 'Cache-Control': 'no-store' },
+      }
+    );
+  },
+  { cors }
+);
@@ -5,7 +5,8 @@
  * Used during development to help AI agents understand workflow response formats.
  *
  * SECURITY: This endpoint is for development use only. In production, consider
- * disabling or adding authentication.
+ * disabling or adding authentication. Calls are rate limited per client IP
+ * (429 with a Retry-After header and code RATE_LIMITED).
  *
  * POST /api/bubble/discover
  *
@@ -14,9 +15,21 @@
  *   "workflow": "workflow_name",        // Required: Bubble workflow name
  *   "method": "GET" | "POST",           // Optional: HTTP method (default: POST)
  *   "body": { ... },                    // Optional: Request body for POST requests
- *   "params": { ... }                   // Optional: Query params for GET requests
+ *   "params": { ... },                  // Optional: Query params for GET requests
+ *   "samples": [ ... ],                 // Optional: Earlier responses to merge into the schema
+ *   "maxEnumValues": 5,                 // Optional: Most distinct values for an enum (0 disables)
+ *   "minObservations": 10,              // Optional: Times a field must be seen for enums and ranges
+ *   "minValueCount": 2,                 // Optional: Times every value must be seen for an enum
+ *   "enforceRanges": false              // Optional: Emit ranges as min/max instead of a description
  * }
  *
+ * With `samples`, the schema is inferred from this response and the samples
+ * together: keys missing from some become optional, null values nullable and
+ * conflicting types unions. Fields with a few repeating values become enums,
+ * and numbers get their observed range as a description (see InferenceOptions). Nested
+ * objects become named definitions in `$defs`, one per distinct shape, and
+ * get their own interfaces and Zod schemas.
+ *
  * Response (Success):
  * {
  *   "success": true,
@@ -25,33 +38,58 @@
  *   "bubbleUrl": "https://app.creatorcore.co/version-test/api/1.1/wf/workflow_name",
  *   "requestBody": { ... },
  *   "response": { ... },                // Raw Bubble response
- *   "inferredSchema": { ... },          // JSON Schema
- *   "typescript": "interface ...",      // Generated TypeScript
- *   "zodSchema": "z.object({ ... })"    // Generated Zod schema
+ *   "sampleCount": 1,                   // Responses the schema was inferred from
+ *   "inferredSchema": { ..., "$defs": { ... } }, // JSON Schema, nested objects in $defs
+ *   "imports": "import { ... } from '@/shared/bubble';", // Bubble format types used (or "")
+ *   "typescript": "interface ...",      // Generated TypeScript (root interface first)
+ *   "zodSchema": "z.object({ ... })"    // Generated Zod schemas (root schema last)
  * }
  *
  * Response (Error):
  * {
  *   "success": false,
- *   "error": "Error message",
- *   "details": { ... }
+ *   "error": { "code": "ERROR_CODE", "message": "Error message", "details": { ... } }
  * }
+ *
+ * Bubble errors keep Bubble's status and include its raw body in
+ * `details.response`.
  */
 
 import { NextResponse } from 'next/server';
 import {
   inferJsonSchema,
+  inferJsonSchemaFromSamples,
+  extractDefinitions,
   generateTypescriptInterface,
   jsonSchemaToZod,
   workflowToInterfaceName,
   workflowToSchemaName,
+  generateFormatImports,
+  type InferenceOptions,
 } from '@/lib/schema-inference';
+import { checkRateLimit, getClientIp, rateLimitHeaders, RATE_LIMITS } from '@/lib/rate-limit';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import { toBubbleError } from '@/lib/bubble';
+import {
+  ConfigurationError,
+  errorResponse,
+  NetworkError,
+  RateLimitError,
+  ValidationError,
+} from '@/lib/errors';
+
+const cors: CorsOptions = { methods: ['POST'], allowHeaders: ['Content-Type'] };
 
 interface DiscoverRequest {
   workflow: string;
   method?: 'GET' | 'POST';
   body?: Record<string, unknown>;
   params?: Record<string, string>;
+  samples?: unknown[];
+  maxEnumValues?: number;
+  minObservations?: number;
+  minValueCount?: number;
+  enforceRanges?: boolean;
 }
 
 function getBubbleApiKey(): string | null {
@@ -69,50 +107,55 @@ function getBubbleWorkflowUrl(baseUrl: string, workflowName: string): string {
 }
 
 export async function POST(request: Request) {
+  const corsHeaders = getCorsHeaders(request, cors);
+
   try {
+    // Throttle before doing anything with the server's API key
+    const limit = await checkRateLimit(RATE_LIMITS.discoverByIp, getClientIp(request));
+    if (!limit.allowed) {
+      const error = new RateLimitError('Too many requests, try again later', {
+        retryAfter: limit.retryAfter,
+      });
+      return errorResponse(error, { ...corsHeaders, ...rateLimitHeaders(limit) });
+    }
+
     // Parse request body
-    const body = (await request.json()) as DiscoverRequest;
+    let body: DiscoverRequest;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Invalid JSON body', { code: 'INVALID_REQUEST' });
+    }
 
     // Validate workflow name
     if (!body.workflow || typeof body.workflow !== 'string') {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Missing or invalid workflow name',
-          details: { field: 'workflow' },
-        },
-        { status: 400 }
-      );
+      throw new ValidationError('Missing or invalid workflow name', {
+        details: { field: 'workflow' },
+      });
+    }
+
+    if (body.samples !== undefined && !Array.isArray(body.samples)) {
+      throw new ValidationError('samples must be an array of earlier responses', {
+        details: { field: 'samples' },
+      });
     }
 
     // Get API key
     const apiKey = getBubbleApiKey();
     if (!apiKey) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'BUBBLE_API_KEY not configured',
-          details: {
-            hint: 'Add BUBBLE_API_KEY to your .env.local file',
-          },
-        },
-        { status: 500 }
-      );
+      throw new ConfigurationError('BUBBLE_API_KEY not configured', {
+        details: { hint: 'Add BUBBLE_API_KEY to your .env.local file' },
+      });
     }
 
     // Get Bubble base URL
     const baseUrl = getBubbleBaseUrl();
     if (!baseUrl) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'BUBBLE_BASE_URL not configured',
-          details: {
-            hint: 'Add BUBBLE_BASE_URL to your .env.local file (e.g., https://app.creatorcore.co/version-test)',
-          },
+      throw new ConfigurationError('BUBBLE_BASE_URL not configured', {
+        details: {
+          hint: 'Add BUBBLE_BASE_URL to your .env.local file (e.g., https://app.creatorcore.co/version-test)',
         },
-        { status: 500 }
-      );
+      });
     }
 
     const method = body.method || 'POST';
@@ -140,7 +183,18 @@ export async function POST(request: Request) {
     }
 
     // Call Bubble workflow
-    const bubbleResponse = await fetch(finalUrl, fetchOptions);
+    let bubbleResponse: Response;
+    try {
+      bubbleResponse = await fetch(finalUrl, fetchOptions);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(`Could not reach Bubble: ${reason}`, { cause: error });
+    }
+
+    // Handle Bubble error responses
+    if (!bubbleResponse.ok) {
+      throw await toBubbleError(bubbleResponse, true);
+    }
 
     // Parse response
     let responseData: unknown;
@@ -152,68 +206,51 @@ export async function POST(request: Request) {
       responseData = await bubbleResponse.text();
     }
 
-    // Handle Bubble error responses
-    if (!bubbleResponse.ok) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Bubble API error: ${bubbleResponse.status} ${bubbleResponse.statusText}`,
-          details: {
-            status: bubbleResponse.status,
-            statusText: bubbleResponse.statusText,
-            response: responseData,
-            bubbleUrl: finalUrl,
-          },
-        },
-        { status: bubbleResponse.status }
-      );
-    }
-
-    // Infer schema from response
-    const inferredSchema = inferJsonSchema(responseData);
+    // Infer schema from response (and earlier samples)
+    const inference: InferenceOptions = {
+      maxEnumValues: body.maxEnumValues,
+      minObservations: body.minObservations,
+      minValueCount: body.minValueCount,
+      enforceRanges: body.enforceRanges,
+    };
+    const schema = body.samples?.length
+      ? inferJsonSchemaFromSamples([responseData, ...body.samples], inference)
+      : inferJsonSchema(responseData, inference);
 
-    // Generate TypeScript interface
+    // Name nested objects after the response interface
     const interfaceName = workflowToInterfaceName(body.workflow);
+    const inferredSchema = extractDefinitions(schema, interfaceName);
+
+    // Generate TypeScript interfaces
     const typescript = generateTypescriptInterface(inferredSchema, interfaceName);
 
-    // Generate Zod schema
+    // Generate Zod schemas
     const schemaName = workflowToSchemaName(body.workflow);
     const zodSchema = jsonSchemaToZod(inferredSchema, schemaName);
 
-    return NextResponse.json({
-      success: true,
-      workflow: body.workflow,
-      method,
-      bubbleUrl: finalUrl,
-      requestBody: method === 'POST' ? body.body : undefined,
-      requestParams: method === 'GET' ? body.params : undefined,
-      response: responseData,
-      inferredSchema,
-      typescript,
-      zodSchema,
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
     return NextResponse.json(
       {
-        success: false,
-        error: 'Failed to discover workflow',
-        details: { message },
+        success: true,
+        workflow: body.workflow,
+        method,
+        bubbleUrl: finalUrl,
+        requestBody: method === 'POST' ? body.body : undefined,
+        requestParams: method === 'GET' ? body.params : undefined,
+        response: responseData,
+        sampleCount: 1 + (body.samples?.length ?? 0),
+        inferredSchema,
+        imports: generateFormatImports(inferredSchema),
+        typescript,
+        zodSchema,
       },
-      { status: 500 }
+      { headers: corsHeaders }
     );
+  } catch (error) {
+    return errorResponse(error, corsHeaders);
   }
 }
 
 // CORS support
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
+export async function OPTIONS(request: Request) {
+  return corsPreflight(request, cors);
 }
@@ -0,0 +1,152 @@
+/**
+ * Bubble Data Type Discovery API
+ *
+ * Fetches Bubble's data type metadata (the /meta endpoint) and returns a
+ * JSON Schema, TypeScript interface and Zod schema for each type. Unlike
+ * workflow discovery these come from the app's data model, not a sample.
+ *
+ * SECURITY: This endpoint is for development use only. In production, consider
+ * disabling or adding authentication. Calls are rate limited per client IP
+ * (429 with a Retry-After header and code RATE_LIMITED).
+ *
+ * GET /api/bubble/discover/types
+ * GET /api/bubble/discover/types?types=product,order_item
+ *
+ * Query Params:
+ *   types    Optional: comma-separated type names (default: all types)
+ *
+ * Response (Success):
+ * {
+ *   "success": true,
+ *   "bubbleUrl": "https://app.creatorcore.co/version-test/api/1.1/meta",
+ *   "types": [
+ *     {
+ *       "type": "product",
+ *       "display": "Product",
+ *       "exposed": true,                // Listed under `get` (readable via the Data API)
+ *       "schema": { ... },              // JSON Schema
+ *       "imports": "import ...",        // Bubble format types used (or "")
+ *       "typescript": "interface ...",  // Generated TypeScript
+ *       "zodSchema": "z.object({ ... })" // Generated Zod schema
+ *     }
+ *   ],
+ *   "imports": "import ...",            // Bubble format types used by all types
+ *   "typescript": "...",                // All interfaces
+ *   "zodSchema": "..."                  // All Zod schemas
+ * }
+ *
+ * Response (Error):
+ * {
+ *   "success": false,
+ *   "error": { "code": "ERROR_CODE", "message": "Error message", "details": { ... } }
+ * }
+ *
+ * Unknown types get 404 NOT_FOUND with the available types in
+ * `details.available`.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  bubbleMetaToJsonSchemas,
+  dataTypeToInterfaceName,
+  dataTypeToSchemaName,
+  generateFormatImports,
+  generateTypescriptInterface,
+  jsonSchemaToZod,
+  type BubbleMeta,
+} from '@/lib/schema-inference';
+import { checkRateLimit, getClientIp, rateLimitHeaders, RATE_LIMITS } from '@/lib/rate-limit';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import { getBubbleApiUrl, getServerBubbleConfig, requestBubbleDataApi } from '@/lib/bubble';
+import { BubbleApiError, errorResponse, NotFoundError, RateLimitError } from '@/lib/errors';
+
+const cors: CorsOptions = { methods: ['GET'] };
+
+export async function GET(request: Request) {
+  const corsHeaders = getCorsHeaders(request, cors);
+
+  try {
+    // Throttle before doing anything with the server's API key
+    const limit = await checkRateLimit(RATE_LIMITS.discoverByIp, getClientIp(request));
+    if (!limit.allowed) {
+      const error = new RateLimitError('Too many requests, try again later', {
+        retryAfter: limit.retryAfter,
+      });
+      return errorResponse(error, { ...corsHeaders, ...rateLimitHeaders(limit) });
+    }
+
+    const config = getServerBubbleConfig();
+
+    const typesParam = new URL(request.url).searchParams.get('types');
+    const only = typesParam
+      ? typesParam.split(',').map((name) => name.trim()).filter(Boolean)
+      : undefined;
+
+    // Fetch data type metadata, with the same timeout, retries and circuit
+    // breaker as other Data API calls
+    const bubbleResponse = await requestBubbleDataApi(config, '/meta', { method: 'GET' });
+
+    // Parse response
+    let responseData: unknown;
+    const contentType = bubbleResponse.headers.get('content-type');
+
+    if (contentType?.includes('application/json')) {
+      responseData = await bubbleResponse.json();
+    } else {
+      responseData = await bubbleResponse.text();
+    }
+
+    const meta = (responseData ?? {}) as BubbleMeta;
+    if (typeof meta !== 'object' || !meta.types) {
+      throw new BubbleApiError('Bubble did not return data type metadata', {
+        code: 'INVALID_BUBBLE_RESPONSE',
+        body: responseData,
+        details: {
+          hint: 'Enable the Data API in Settings > API and expose the data types to discover',
+          response: responseData,
+        },
+      });
+    }
+
+    // Build schemas and generate code per type
+    const schemas = bubbleMetaToJsonSchemas(meta, only);
+
+    if (only) {
+      const missing = only.filter((name) => !schemas[name]);
+      if (missing.length > 0) {
+        throw new NotFoundError(`Unknown data type: ${missing.join(', ')}`, {
+          details: { available: Object.keys(meta.types) },
+        });
+      }
+    }
+
+    const types = Object.entries(schemas).map(([type, schema]) => ({
+      type,
+      display: meta.types?.[type]?.display ?? type,
+      exposed: meta.get?.includes(type) ?? false,
+      schema,
+      imports: generateFormatImports(schema),
+      typescript: generateTypescriptInterface(schema, dataTypeToInterfaceName(type)),
+      zodSchema: jsonSchemaToZod(schema, dataTypeToSchemaName(type)),
+    }));
+
+    return NextResponse.json(
+      {
+        success: true,
+        bubbleUrl: `${getBubbleApiUrl(config.baseUrl)}/meta`,
+        types,
+        imports: generateFormatImports(...Object.values(schemas)),
+        typescript: types.map((entry) => entry.typescript).join('\n\n'),
+        zodSchema: types.map((entry) => entry.zodSchema).join('\n\n'),
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    return errorResponse(error, corsHeaders);
+  }
+}
+
+// CORS support
+export async function OPTIONS(request: Request) {
+  return corsPreflight(request, cors);
+}
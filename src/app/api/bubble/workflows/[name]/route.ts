@@ -0,0 +1,143 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { BUBBLE_WORKFLOWS, findWorkflowKey } from '@/config/bubble-workflows';
+import { callBubbleWorkflow, getAppBubbleConfig } from '@/lib/bubble';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import { AuthError, BubbleApiError, errorResponse, NotFoundError, ValidationError } from '@/lib/errors';
+import { requireGrants, withAuth } from '@/lib/with-auth';
+import {
+  getResponseCache,
+  workflowCacheKey,
+  workflowCacheTag,
+  type ApiResponse,
+  type WorkflowDefinition,
+} from '@/shared/bubble';
+
+const cors: CorsOptions = { methods: ['POST'] };
+
+/**
+ * Scope every caller needs, whatever the workflow
+ */
+const WORKFLOW_CALL_SCOPE = 'workflows:call';
+
+type RouteContext = { params: Promise<{ name: string }> };
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, cors);
+}
+
+/**
+ * Read the workflow params from the request body (an empty body means no params)
+ */
+async function readParams(request: NextRequest): Promise<unknown> {
+  const text = await request.text();
+  if (!text.trim()) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError('Invalid JSON body', { code: 'INVALID_REQUEST' });
+  }
+}
+
+/**
+ * Call a registered Bubble workflow on the caller's Bubble app
+ *
+ * POST /api/bubble/workflows/:name
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: the workflow params, e.g. { "user_id": "123" }
+ *
+ * Returns: { success: true, data: <Bubble response> }
+ *
+ * `name` is the Bubble workflow name (e.g., get_user_profile). Only workflows
+ * in BUBBLE_WORKFLOWS can be called, by callers with the `workflows:call`
+ * scope and the entry's `roles` / `scopes`. An entry's `callerParam` is set to
+ * the caller's Bubble user ID. Params are then checked against the entry's
+ * paramsSchema and Bubble's response against its responseSchema. Entries
+ * with a `cache` policy are served from the shared response cache.
+ *
+ * With BUBBLE_APPS set, the workflow runs on the backend registered for the
+ * token's app (see getAppBubbleConfig), so one app's tokens can't call
+ * another app's workflows; otherwise it runs on BUBBLE_BASE_URL.
+ */
+export const POST = withAuth<RouteContext>(
+  async (request, { params, auth }): Promise<NextResponse<ApiResponse<unknown>>> => {
+    const corsHeaders = getCorsHeaders(request, cors);
+
+    try {
+      const { name } = await params;
+      const key = findWorkflowKey(name);
+      if (!key) {
+        throw new NotFoundError(`Unknown workflow: ${name}`, { code: 'UNKNOWN_WORKFLOW' });
+      }
+      const workflow: WorkflowDefinition = BUBBLE_WORKFLOWS[key];
+      requireGrants(auth, workflow);
+
+      // Roles, scopes and the Bubble user ID all come from the token's app
+      const config = getAppBubbleConfig(auth.app);
+
+      let input = await readParams(request);
+      if (workflow.callerParam) {
+        if (!input || typeof input !== 'object' || Array.isArray(input)) {
+          throw new ValidationError('Workflow params must be an object', { code: 'INVALID_PARAMS' });
+        }
+        if (!auth.bubbleUserId) {
+          throw new AuthError('Token has no Bubble user ID', { code: 'MISSING_CLAIM' });
+        }
+        input = { ...input, [workflow.callerParam]: auth.bubbleUserId };
+      }
+
+      const parsedParams = workflow.paramsSchema.safeParse(input);
+      if (!parsedParams.success) {
+        throw new ValidationError('Invalid workflow params', {
+          code: 'INVALID_PARAMS',
+          details: { issues: parsedParams.error.issues },
+        });
+      }
+
+      const call = async () => {
+        const result = await callBubbleWorkflow(
+          config,
+          workflow.name,
+          parsedParams.data as Record<string, unknown>,
+          // No request signal: a cached call may be shared by several requests
+          { idempotent: workflow.idempotent ?? false }
+        );
+
+        const parsedResponse = workflow.responseSchema.safeParse(result.response);
+        if (!parsedResponse.success) {
+          // The response shape is an upstream problem; keep the details in the logs
+          console.error(
+            `Workflow ${workflow.name} returned an unexpected response:`,
+            parsedResponse.error.issues
+          );
+          throw new BubbleApiError(`Workflow ${workflow.name} returned an unexpected response`, {
+            code: 'INVALID_WORKFLOW_RESPONSE',
+            body: result.response,
+          });
+        }
+        return parsedResponse.data;
+      };
+
+      const data = workflow.cache
+        ? await getResponseCache().fetch(
+            workflowCacheKey(workflow.name, parsedParams.data, config.baseUrl),
+            {
+              ...workflow.cache,
+              tags: [...(workflow.cache.tags ?? []), workflowCacheTag(workflow.name)],
+            },
+            call
+          )
+        : await call();
+
+      return NextResponse.json({ success: true, data }, { status: 200, headers: corsHeaders });
+    } catch (error) {
+      return errorResponse(error, corsHeaders);
+    }
+  },
+  { cors, scopes: [WORKFLOW_CALL_SCOPE] }
+);
@@ -1,21 +1,38 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
+import { corsPreflight, getCorsHeaders, type CorsOptions } from '@/lib/cors';
+import { getBubbleCircuitStates } from '@/lib/bubble';
+import { isIntrospectionCaller } from '@/lib/auth';
+
+const cors: CorsOptions = { methods: ['GET'], allowHeaders: ['Content-Type', 'Authorization'] };
 
 /**
  * Health check endpoint
  * GET /api/health
+ *
+ * Reports "degraded" while any Bubble circuit is open or half-open. Anyone
+ * sees each circuit's state; callers sending INTROSPECTION_SECRET as a bearer
+ * token also see which Bubble app and workflow or data type each circuit is
+ * for, and its failure count.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const circuits = getBubbleCircuitStates();
+  const degraded = circuits.some((circuit) => circuit.state !== 'closed');
+  const detailed = isIntrospectionCaller(request);
+
   return NextResponse.json(
     {
-      status: 'ok',
+      status: degraded ? 'degraded' : 'ok',
       timestamp: new Date().toISOString(),
       version: '1.0.0',
+      bubble: {
+        circuits: detailed
+          ? circuits
+          : circuits.map(({ state, retryAt }) => ({ state, retryAt })),
+      },
     },
     {
       status: 200,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-      },
+      headers: { ...getCorsHeaders(request, cors), 'Cache-Control': 'no-store' },
     }
   );
 }
@@ -23,13 +40,6 @@ export async function GET() {
 /**
  * Handle CORS preflight
  */
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+export async function OPTIONS(request: NextRequest) {
+  return corsPreflight(request, cors);
 }
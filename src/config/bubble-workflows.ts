@@ -8,13 +8,18 @@
  * This file can be updated manually or via:
  *   npm run discover-workflow <name> --save-registry
  *
+ * Access through /api/bubble/workflows/:name: callers need the
+ * `workflows:call` scope plus the entry's `roles` / `scopes`. Bubble runs the
+ * workflow with the app's API key, so an entry without `roles` or `scopes`
+ * is open to every signed-in user. Leave entries open only when any user may
+ * run them, and set `callerParam` for workflows that act on the calling user
+ * rather than trusting a user ID in the params.
+ *
  * Usage in interfaces:
- *   import { BUBBLE_WORKFLOWS, type WorkflowResponse } from '@/config/bubble-workflows';
+ *   import { createWorkflowClient } from '@/shared/bubble';
  *
- *   const result = await services.callBubbleWorkflow(
- *     BUBBLE_WORKFLOWS.getUserProfile.name,
- *     { user_id: '123' }
- *   ) as WorkflowResponse<'getUserProfile'>;
+ *   const workflows = createWorkflowClient(services);
+ *   const result = await workflows.getUserProfile({ user_id: '123' });
  */
 
 import { z } from 'zod';
@@ -43,9 +48,15 @@ export const BUBBLE_WORKFLOWS = {
     /** HTTP method (usually POST for workflows) */
     method: 'POST' as const,
 
+    /** Safe to call twice with the same params (allows retries on 429/5xx) */
+    idempotent: false,
+
     /** Human-readable description */
     description: 'Example workflow - replace with real workflows',
 
+    /** Roles (any of) and scopes (all of) the caller needs through the server proxy */
+    roles: ['admin'],
+
     /** Zod schema for validating request parameters */
     paramsSchema: z.object({
       example_param: z.string().optional(),
@@ -67,7 +78,12 @@ export const BUBBLE_WORKFLOWS = {
   // getUserProfile: {
   //   name: 'get_user_profile',
   //   method: 'POST' as const,
+  //   idempotent: true,
   //   description: 'Fetches user profile data',
+  //   // Safe for any signed-in user: always runs for the caller's own profile
+  //   callerParam: 'user_id',
+  //   // Read-only, so responses may be cached (fresh 30s, then served stale for 60s while refreshing)
+  //   cache: { ttlMs: 30_000, staleWhileRevalidateMs: 60_000, tags: ['user-profile'] },
   //   paramsSchema: z.object({
   //     user_id: z.string(),
   //   }),
@@ -185,6 +201,17 @@ export function getWorkflow<T extends WorkflowName>(
   return BUBBLE_WORKFLOWS[workflowKey];
 }
 
+/**
+ * Find the registry key for a Bubble workflow name
+ *
+ * @param workflowName - The Bubble workflow name (e.g., 'get_user_profile')
+ * @returns The workflow key, or null if the workflow isn't in the registry
+ */
+export function findWorkflowKey(workflowName: string): WorkflowName | null {
+  const keys = Object.keys(BUBBLE_WORKFLOWS) as WorkflowName[];
+  return keys.find((key) => BUBBLE_WORKFLOWS[key].name === workflowName) ?? null;
+}
+
 /**
  * Get the Bubble workflow name from a registry key
  *
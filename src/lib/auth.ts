@@ -1,51 +1,295 @@
-import { SignJWT, jwtVerify, type JWTPayload } from 'jose';
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  SignJWT,
+  jwtVerify,
+  decodeJwt,
+  errors,
+  type JWTPayload,
+  type JWTVerifyOptions,
+  type JWSHeaderParameters,
+  type CryptoKey,
+} from 'jose';
 import type { BubbleJWTPayload, TokenExchangeResponse } from '@/shared/bubble';
+import { AppError, AuthError } from '@/lib/errors';
+import { getRefreshTokenStore } from '@/lib/refresh-tokens';
+import { getRevocationStore } from '@/lib/revocation';
+import { getTokenReplayStore } from '@/lib/token-replay';
+import { getUserStore } from '@/lib/users';
+import {
+  ASYMMETRIC_ALGORITHMS,
+  getActiveSigningKey,
+  getBubbleJwksResolver,
+  getVerificationKey,
+} from '@/lib/keys';
+import {
+  getBubbleApp,
+  getRequestAppName,
+  isOriginAllowed,
+  type BubbleApp,
+} from '@/lib/tenants';
 
 /**
- * Get the JWT secret as a Uint8Array for jose library
+ * Reasons a Bubble token can be rejected, returned as the `code` by the exchange route
  */
-function getSecret(): Uint8Array {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET environment variable is not set');
+export type TokenErrorCode =
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_TOO_OLD'
+  | 'TOKEN_NOT_YET_VALID'
+  | 'INVALID_ISSUED_AT'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_ALGORITHM'
+  | 'INVALID_ISSUER'
+  | 'INVALID_AUDIENCE'
+  | 'MISSING_CLAIM'
+  | 'TOKEN_REPLAYED'
+  | 'INVALID_TOKEN_TYPE'
+  | 'APP_MISMATCH'
+  | 'INVALID_TOKEN';
+
+/**
+ * Error thrown when a Bubble token fails verification
+ */
+export class TokenVerificationError extends AuthError {
+  declare readonly code: TokenErrorCode;
+
+  constructor(message: string, code: TokenErrorCode) {
+    super(message, { code });
+  }
+}
+
+/**
+ * Roles and scopes granted to a user, carried from Bubble into the access token
+ */
+export interface TokenGrants {
+  /** Role names (e.g., "admin", "creator") */
+  roles?: string[];
+
+  /** Scope names (e.g., "workflows:call", "data:read") */
+  scopes?: string[];
+}
+
+/**
+ * Verified access token claims
+ */
+export interface AccessTokenPayload extends JWTPayload {
+  /** Local user ID */
+  sub: string;
+
+  /** User email */
+  email?: string;
+
+  /** Original Bubble user ID */
+  bubbleUserId?: string;
+
+  /** Bubble app the token was issued for */
+  app?: string;
+
+  /** Granted roles */
+  roles?: string[];
+
+  /** Granted scopes (space-delimited, as in OAuth 2.0) */
+  scope?: string;
+
+  type: 'access';
+}
+
+/**
+ * Request details used when issuing tokens
+ */
+export interface TokenRequestContext {
+  /** Bubble app name from the X-Bubble-App-Name header */
+  appName?: string | null;
+
+  /** Origin header of the request, checked against the app's allowed origins */
+  origin?: string | null;
+}
+
+/**
+ * Resolve which Bubble app's key should verify a token
+ *
+ * The X-Bubble-App-Name header takes precedence over the token's (unverified)
+ * `app` claim; if both are present they must agree. The claim is checked again
+ * after verification, once it can be trusted.
+ */
+function resolveTokenApp(token: string, appName?: string | null): BubbleApp {
+  let claimedApp: string | undefined;
+  try {
+    const claims = decodeJwt(token);
+    claimedApp = typeof claims.app === 'string' ? claims.app : undefined;
+  } catch {
+    // Malformed tokens fail signature verification below
   }
-  if (secret.length < 32) {
-    throw new Error('JWT_SECRET must be at least 32 characters long');
+
+  if (appName && claimedApp && appName !== claimedApp) {
+    throw new TokenVerificationError('Token was issued for a different app', 'APP_MISMATCH');
   }
-  return new TextEncoder().encode(secret);
+
+  return getBubbleApp(appName || claimedApp);
+}
+
+/**
+ * Build a key resolver for access tokens: HS256 tokens verify with the app's
+ * secret, RS256/ES256 tokens with the configured key matching their `kid`
+ */
+function getAccessTokenKeyResolver(app: BubbleApp) {
+  return async (header: JWSHeaderParameters): Promise<CryptoKey | Uint8Array> => {
+    if (header.alg === 'HS256') {
+      return app.secret;
+    }
+    const key = await getVerificationKey(header.kid, header.alg);
+    if (!key) {
+      throw new AuthError('Token signed with an unknown key', { code: 'INVALID_SIGNATURE' });
+    }
+    return key;
+  };
+}
+
+/**
+ * Translate a jose verification error into a TokenVerificationError
+ * Errors that don't come from jose (e.g., configuration) are returned unchanged.
+ */
+function toTokenVerificationError(error: unknown): unknown {
+  if (error instanceof errors.JWTExpired) {
+    return error.claim === 'iat'
+      ? new TokenVerificationError('Token is older than the maximum allowed age', 'TOKEN_TOO_OLD')
+      : new TokenVerificationError('Token has expired', 'TOKEN_EXPIRED');
+  }
+
+  if (error instanceof errors.JWTClaimValidationFailed) {
+    if (error.reason === 'missing') {
+      return new TokenVerificationError(`Token missing ${error.claim} claim`, 'MISSING_CLAIM');
+    }
+    switch (error.claim) {
+      case 'iss':
+        return new TokenVerificationError('Token issuer is not accepted', 'INVALID_ISSUER');
+      case 'aud':
+        return new TokenVerificationError('Token audience is not accepted', 'INVALID_AUDIENCE');
+      case 'nbf':
+        return new TokenVerificationError('Token is not yet valid', 'TOKEN_NOT_YET_VALID');
+      case 'iat':
+        return new TokenVerificationError('Token issued-at time is in the future', 'INVALID_ISSUED_AT');
+    }
+    return new TokenVerificationError(`Token verification failed: ${error.message}`, 'INVALID_TOKEN');
+  }
+
+  if (
+    error instanceof errors.JWSSignatureVerificationFailed ||
+    error instanceof errors.JWKSNoMatchingKey
+  ) {
+    return new TokenVerificationError('Invalid token signature', 'INVALID_SIGNATURE');
+  }
+
+  if (error instanceof errors.JOSEAlgNotAllowed) {
+    return new TokenVerificationError('Token algorithm is not allowed', 'INVALID_ALGORITHM');
+  }
+
+  if (error instanceof errors.JOSEError) {
+    return new TokenVerificationError(`Token verification failed: ${error.message}`, 'INVALID_TOKEN');
+  }
+
+  return error;
 }
 
 /**
  * Verify a JWT token from Bubble
+ *
+ * Checks the signature plus the app's Bubble token policy: issuer, audience,
+ * maximum age (from `iat`), clock tolerance and, optionally, one-time use of
+ * the `jti`.
+ *
  * @param token - The JWT token to verify
+ * @param appName - The Bubble app name from the X-Bubble-App-Name header (optional)
  * @returns The decoded payload
+ * @throws TokenVerificationError if the token is rejected
  */
-export async function verifyBubbleToken(token: string): Promise<BubbleJWTPayload> {
-  try {
-    const secret = getSecret();
-    const { payload } = await jwtVerify(token, secret, {
-      algorithms: ['HS256'],
-    });
+export async function verifyBubbleToken(
+  token: string,
+  appName?: string | null
+): Promise<BubbleJWTPayload> {
+  // Mismatched apps throw TokenVerificationError; unknown apps and configuration errors pass through
+  const app = resolveTokenApp(token, appName);
 
-    // Validate required fields
-    if (!payload.sub) {
-      throw new Error('Token missing subject (sub) claim');
-    }
+  const policy = app.bubbleTokenPolicy;
+  const options: JWTVerifyOptions = {
+    issuer: policy.issuer,
+    audience: policy.audience,
+    maxTokenAge: policy.maxTokenAge,
+    clockTolerance: policy.clockTolerance,
+    requiredClaims: policy.oneTimeUse ? ['sub', 'jti'] : ['sub'],
+  };
 
-    return payload as unknown as BubbleJWTPayload;
+  let payload: JWTPayload;
+  try {
+    ({ payload } = app.bubbleJwks
+      ? await jwtVerify(token, getBubbleJwksResolver(app.bubbleJwks), {
+          ...options,
+          algorithms: [...ASYMMETRIC_ALGORITHMS],
+        })
+      : await jwtVerify(token, app.secret, {
+          ...options,
+          algorithms: ['HS256'],
+        }));
   } catch (error) {
-    if (error instanceof Error) {
-      // Re-throw with more context
-      if (error.message.includes('expired')) {
-        throw new Error('Token has expired');
-      }
-      if (error.message.includes('signature')) {
-        throw new Error('Invalid token signature');
-      }
-      throw new Error(`Token verification failed: ${error.message}`);
+    throw toTokenVerificationError(error);
+  }
+
+  // Tokens we minted ourselves share the secret, so don't accept them here
+  if (payload.type === 'access' || payload.type === 'refresh') {
+    throw new TokenVerificationError('Token type not accepted for exchange', 'INVALID_TOKEN_TYPE');
+  }
+
+  if (payload.app !== undefined && app.name !== null && payload.app !== app.name) {
+    throw new TokenVerificationError('Token was issued for a different app', 'APP_MISMATCH');
+  }
+
+  // Each jti may be exchanged once; keep it until the token could no longer verify
+  if (policy.oneTimeUse && payload.jti) {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt =
+      payload.exp ??
+      (payload.iat !== undefined && policy.maxTokenAge !== undefined
+        ? payload.iat + policy.maxTokenAge
+        : now + 86400);
+    const replayKey = `${app.name ?? ''}:${payload.iss ?? ''}:${payload.jti}`;
+
+    const firstUse = await getTokenReplayStore().consume(
+      replayKey,
+      expiresAt + policy.clockTolerance
+    );
+    if (!firstUse) {
+      throw new TokenVerificationError('Token has already been used', 'TOKEN_REPLAYED');
     }
-    throw new Error('Token verification failed');
   }
+
+  return { ...payload, app: payload.app ?? app.name ?? undefined } as unknown as BubbleJWTPayload;
+}
+
+/**
+ * Split a claim that may be a list or a delimited string into names
+ */
+function toNameList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string' && v.length > 0);
+  }
+  if (typeof value === 'string') {
+    return value.split(/[\s,]+/).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Read roles and scopes from token claims
+ *
+ * Roles come from `roles` (list or delimited string) or `role`; scopes from
+ * `scope` (space-delimited) or `scopes`.
+ */
+export function getTokenGrants(payload: JWTPayload): Required<TokenGrants> {
+  const roles = toNameList(payload.roles ?? payload.role);
+  const scopes = toNameList(payload.scope ?? payload.scopes);
+  return {
+    roles: Array.from(new Set(roles)),
+    scopes: Array.from(new Set(scopes)),
+  };
 }
 
 /**
@@ -53,81 +297,226 @@ export async function verifyBubbleToken(token: string): Promise<BubbleJWTPayload
  * @param userId - The user ID to include in the token
  * @param email - The user's email (optional)
  * @param bubbleUserId - The original Bubble user ID
+ * @param appName - The Bubble app the token is issued for (optional)
+ * @param grants - Roles and scopes to grant (optional)
  * @returns The signed JWT token
  */
 export async function createAccessToken(
   userId: string,
   email?: string,
-  bubbleUserId?: string
+  bubbleUserId?: string,
+  appName?: string | null,
+  grants: TokenGrants = {}
 ): Promise<string> {
-  const secret = getSecret();
-  const expiresIn = parseInt(process.env.ACCESS_TOKEN_EXPIRY || '3600', 10);
+  const app = getBubbleApp(appName);
+  const expiresIn = app.accessTokenExpiry;
+  const signingKey = await getActiveSigningKey();
 
-  const token = await new SignJWT({
+  const jwt = new SignJWT({
     sub: userId,
     email,
     bubbleUserId,
+    app: app.name ?? undefined,
+    roles: grants.roles?.length ? grants.roles : undefined,
+    scope: grants.scopes?.length ? grants.scopes.join(' ') : undefined,
     type: 'access',
   })
-    .setProtectedHeader({ alg: 'HS256' })
+    .setJti(crypto.randomUUID())
     .setIssuedAt()
-    .setExpirationTime(`${expiresIn}s`)
-    .sign(secret);
+    .setExpirationTime(`${expiresIn}s`);
 
-  return token;
+  // Prefer the asymmetric key so other backends can verify via the JWKS
+  if (signingKey) {
+    return jwt
+      .setProtectedHeader({ alg: signingKey.alg, kid: signingKey.kid })
+      .sign(signingKey.privateKey);
+  }
+
+  return jwt.setProtectedHeader({ alg: 'HS256' }).sign(app.secret);
+}
+
+/**
+ * Translate an error from verifying one of our own tokens into an AuthError
+ * AppErrors (configuration, unknown app, ...) are returned unchanged.
+ */
+function toAuthError(error: unknown, label: string, invalidCode: string): unknown {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof errors.JWTExpired) {
+    return new AuthError(`${label} has expired`, { code: 'TOKEN_EXPIRED' });
+  }
+  const reason = error instanceof Error ? `: ${error.message}` : '';
+  return new AuthError(`${label} verification failed${reason}`, { code: invalidCode });
 }
 
 /**
  * Verify an access token from Next.js API requests
  * @param token - The access token to verify
+ * @param appName - The Bubble app name from the X-Bubble-App-Name header (optional)
  * @returns The decoded payload
+ * @throws AuthError if the token is rejected
  */
-export async function verifyAccessToken(token: string): Promise<JWTPayload & { type?: string }> {
+export async function verifyAccessToken(
+  token: string,
+  appName?: string | null
+): Promise<AccessTokenPayload> {
   try {
-    const secret = getSecret();
-    const { payload } = await jwtVerify(token, secret, {
-      algorithms: ['HS256'],
+    const app = resolveTokenApp(token, appName);
+    const { payload } = await jwtVerify(token, getAccessTokenKeyResolver(app), {
+      algorithms: ['HS256', ...ASYMMETRIC_ALGORITHMS],
     });
 
     // Verify this is an access token
     if (payload.type !== 'access') {
-      throw new Error('Invalid token type');
+      throw new AuthError('Invalid token type', { code: 'INVALID_TOKEN_TYPE' });
+    }
+    if (!payload.sub) {
+      throw new AuthError('Token missing subject (sub) claim', { code: 'MISSING_CLAIM' });
     }
 
-    return payload;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Access token verification failed: ${error.message}`);
+    if (payload.app !== undefined && app.name !== null && payload.app !== app.name) {
+      throw new AuthError('Token was issued for a different app', { code: 'APP_MISMATCH' });
+    }
+
+    // Tokens without a jti can't be revoked, so don't accept them
+    if (!payload.jti) {
+      throw new AuthError('Token missing token ID (jti) claim', { code: 'MISSING_CLAIM' });
     }
-    throw new Error('Access token verification failed');
+    if (await getRevocationStore().isRevoked(payload.jti)) {
+      throw new AuthError('Token has been revoked', { code: 'TOKEN_REVOKED' });
+    }
+
+    return payload as AccessTokenPayload;
+  } catch (error) {
+    throw toAuthError(error, 'Access token', 'INVALID_TOKEN');
   }
 }
 
 /**
- * Exchange a Bubble token for a Next.js access token
- * This is the main function called by the API route
+ * Create a refresh token and record it in the refresh token store
+ * @param userId - The user ID to include in the token
+ * @param email - The user's email (optional)
+ * @param bubbleUserId - The original Bubble user ID
+ * @param appName - The Bubble app the token is issued for (optional)
+ * @param grants - Roles and scopes to carry into refreshed access tokens (optional)
+ * @param familyId - The token family to join (a new family is started if omitted)
+ * @returns The signed JWT token
  */
-export async function exchangeToken(bubbleToken: string): Promise<TokenExchangeResponse> {
-  // Verify the Bubble token
-  const bubblePayload = await verifyBubbleToken(bubbleToken);
+export async function createRefreshToken(
+  userId: string,
+  email?: string,
+  bubbleUserId?: string,
+  appName?: string | null,
+  grants: TokenGrants = {},
+  familyId: string = crypto.randomUUID()
+): Promise<string> {
+  const app = getBubbleApp(appName);
+  const expiresIn = app.refreshTokenExpiry;
+  const jti = crypto.randomUUID();
+  const issuedAt = Math.floor(Date.now() / 1000);
 
-  // Extract user information
-  const bubbleUserId = bubblePayload.sub;
-  const email = bubblePayload.email;
+  const token = await new SignJWT({
+    sub: userId,
+    email,
+    bubbleUserId,
+    app: app.name ?? undefined,
+    roles: grants.roles?.length ? grants.roles : undefined,
+    scope: grants.scopes?.length ? grants.scopes.join(' ') : undefined,
+    fam: familyId,
+    type: 'refresh',
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setJti(jti)
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(issuedAt + expiresIn)
+    .sign(app.secret);
+
+  await getRefreshTokenStore().save({
+    jti,
+    familyId,
+    userId,
+    expiresAt: issuedAt + expiresIn,
+  });
+
+  return token;
+}
 
-  // In a real application, you might want to:
-  // 1. Look up or create a user in your database
-  // 2. Store the mapping between Bubble user ID and your user ID
-  // For now, we'll use the Bubble user ID directly
-  const userId = bubbleUserId;
+/**
+ * Verify a refresh token's signature and claims
+ * @param token - The refresh token to verify
+ * @param appName - The Bubble app name from the X-Bubble-App-Name header (optional)
+ * @returns The decoded payload
+ * @throws AuthError if the token is rejected
+ */
+async function verifyRefreshToken(
+  token: string,
+  appName?: string | null
+): Promise<JWTPayload & { type: 'refresh'; fam: string; jti: string; sub: string }> {
+  try {
+    const app = resolveTokenApp(token, appName);
+    const { payload } = await jwtVerify(token, app.secret, {
+      algorithms: ['HS256'],
+    });
 
-  // Create the access token
-  const accessToken = await createAccessToken(userId, email, bubbleUserId);
-  const expiresIn = parseInt(process.env.ACCESS_TOKEN_EXPIRY || '3600', 10);
+    if (payload.type !== 'refresh') {
+      throw new AuthError('Invalid token type', { code: 'INVALID_REFRESH_TOKEN' });
+    }
+    if (payload.app !== undefined && app.name !== null && payload.app !== app.name) {
+      throw new AuthError('Token was issued for a different app', { code: 'APP_MISMATCH' });
+    }
+    if (!payload.sub || !payload.jti || typeof payload.fam !== 'string') {
+      throw new AuthError('Token missing required claims', { code: 'INVALID_REFRESH_TOKEN' });
+    }
+
+    return payload as JWTPayload & { type: 'refresh'; fam: string; jti: string; sub: string };
+  } catch (error) {
+    throw toAuthError(error, 'Refresh token', 'INVALID_REFRESH_TOKEN');
+  }
+}
+
+/**
+ * Reject a request from an origin the app doesn't allow
+ * @throws AuthError (403, ORIGIN_NOT_ALLOWED)
+ */
+function assertOriginAllowed(app: BubbleApp, origin: string | null | undefined): void {
+  if (!isOriginAllowed(app, origin)) {
+    throw new AuthError(`Origin not allowed for Bubble app: ${origin}`, {
+      status: 403,
+      code: 'ORIGIN_NOT_ALLOWED',
+    });
+  }
+}
+
+/**
+ * Issue an access/refresh token pair for a user
+ * Callers check the request origin first (see assertOriginAllowed).
+ */
+async function issueTokenPair(
+  userId: string,
+  email: string | undefined,
+  bubbleUserId: string,
+  appName: string | null,
+  grants: TokenGrants,
+  familyId?: string
+): Promise<TokenExchangeResponse> {
+  const app = getBubbleApp(appName);
+
+  const accessToken = await createAccessToken(userId, email, bubbleUserId, app.name, grants);
+  const refreshToken = await createRefreshToken(
+    userId,
+    email,
+    bubbleUserId,
+    app.name,
+    grants,
+    familyId
+  );
 
   return {
     accessToken,
-    expiresIn,
+    expiresIn: app.accessTokenExpiry,
+    refreshToken,
+    refreshExpiresIn: app.refreshTokenExpiry,
     user: {
       id: userId,
       email: email || '',
@@ -136,6 +525,136 @@ export async function exchangeToken(bubbleToken: string): Promise<TokenExchangeR
   };
 }
 
+/**
+ * Exchange a Bubble token for a Next.js access token
+ * This is the main function called by the API route
+ * @param bubbleToken - The JWT token from Bubble
+ * @param context - The requesting app and origin (optional)
+ * @throws TokenVerificationError if the Bubble token is rejected
+ * @throws AuthError (403, ORIGIN_NOT_ALLOWED) if the origin isn't allowed for the app
+ */
+export async function exchangeToken(
+  bubbleToken: string,
+  context: TokenRequestContext = {}
+): Promise<TokenExchangeResponse> {
+  // Check the origin before verification consumes the token's jti or writes the user
+  assertOriginAllowed(resolveTokenApp(bubbleToken, context.appName), context.origin);
+
+  // Verify the Bubble token with the app's secret
+  const bubblePayload = await verifyBubbleToken(bubbleToken, context.appName);
+
+  // Extract user information
+  const bubbleUserId = bubblePayload.sub;
+  const email = bubblePayload.email;
+  const appName = bubblePayload.app ?? null;
+
+  // Find or create the local user for this Bubble user
+  const user = await getUserStore().upsert({ bubbleUserId, appName, email });
+
+  // Carry roles and scopes from the Bubble token into ours
+  const grants = getTokenGrants(bubblePayload as unknown as JWTPayload);
+
+  // Create the access token and start a new refresh token family
+  return issueTokenPair(user.id, email, bubbleUserId, appName, grants);
+}
+
+/**
+ * Swap a refresh token for a new access/refresh token pair
+ *
+ * Each refresh token can be used once. Presenting a token that has already
+ * been rotated means it was leaked, so the whole family is revoked.
+ *
+ * @throws AuthError with code REFRESH_TOKEN_REUSED, REFRESH_TOKEN_REVOKED,
+ *         INVALID_REFRESH_TOKEN, TOKEN_EXPIRED, APP_MISMATCH or ORIGIN_NOT_ALLOWED
+ */
+export async function refreshTokens(
+  refreshToken: string,
+  context: TokenRequestContext = {}
+): Promise<TokenExchangeResponse> {
+  const payload = await verifyRefreshToken(refreshToken, context.appName);
+  const tokenApp = typeof payload.app === 'string' ? payload.app : null;
+  const app = getBubbleApp(tokenApp);
+
+  // Check the origin before the token is rotated
+  assertOriginAllowed(app, context.origin);
+
+  const store = getRefreshTokenStore();
+
+  if (await store.isFamilyRevoked(payload.fam)) {
+    throw new AuthError('Refresh token has been revoked', { code: 'REFRESH_TOKEN_REVOKED' });
+  }
+
+  const record = await store.get(payload.jti);
+  if (!record) {
+    throw new AuthError('Refresh token not recognized', { code: 'INVALID_REFRESH_TOKEN' });
+  }
+
+  // The user store may persist differently from the refresh store; only
+  // refresh for a user it still knows
+  const users = getUserStore();
+  const existing = await users.findById(payload.sub);
+  if (!existing) {
+    throw new AuthError('User no longer exists', { code: 'INVALID_REFRESH_TOKEN' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const rotated = await store.markUsed(payload.jti, now);
+  if (!rotated) {
+    // The newest token in the family was issued by now, so it expires within one lifetime
+    await store.revokeFamily(payload.fam, now + app.refreshTokenExpiry);
+    throw new AuthError('Refresh token reuse detected', { code: 'REFRESH_TOKEN_REUSED' });
+  }
+
+  const email = typeof payload.email === 'string' ? payload.email : undefined;
+
+  // Record that the user is still active
+  const user = await users.upsert({
+    bubbleUserId: existing.bubbleUserId,
+    appName: existing.appName,
+    email,
+  });
+
+  return issueTokenPair(
+    user.id,
+    email,
+    user.bubbleUserId,
+    tokenApp,
+    getTokenGrants(payload),
+    payload.fam
+  );
+}
+
+/**
+ * Revoke an access token before its expiry
+ * @param payload - The verified access token payload
+ */
+export async function revokeAccessToken(payload: JWTPayload): Promise<void> {
+  if (!payload.jti) {
+    throw new AuthError('Token missing token ID (jti) claim', { code: 'MISSING_CLAIM' });
+  }
+  const expiresAt =
+    payload.exp ??
+    Math.floor(Date.now() / 1000) +
+      getBubbleApp(typeof payload.app === 'string' ? payload.app : null).accessTokenExpiry;
+  await getRevocationStore().revoke(payload.jti, expiresAt);
+}
+
+/**
+ * Revoke a refresh token and every token rotated from the same exchange
+ * @param refreshToken - The refresh token to revoke
+ * @param appName - The Bubble app name from the X-Bubble-App-Name header (optional)
+ */
+export async function revokeRefreshToken(
+  refreshToken: string,
+  appName?: string | null
+): Promise<void> {
+  const payload = await verifyRefreshToken(refreshToken, appName);
+  const expiresAt =
+    Math.floor(Date.now() / 1000) +
+    getBubbleApp(typeof payload.app === 'string' ? payload.app : null).refreshTokenExpiry;
+  await getRefreshTokenStore().revokeFamily(payload.fam, expiresAt);
+}
+
 /**
  * Extract the bearer token from an Authorization header
  */
@@ -146,24 +665,49 @@ export function extractBearerToken(authHeader: string | null): string | null {
   return authHeader.slice(7);
 }
 
+/**
+ * Check a request's bearer token against INTROSPECTION_SECRET, which backends
+ * use for token introspection and detailed health checks
+ * @returns false when the secret isn't set or doesn't match
+ */
+export function isIntrospectionCaller(request: Request): boolean {
+  const secret = process.env.INTROSPECTION_SECRET;
+  const provided = extractBearerToken(request.headers.get('Authorization'));
+  if (!secret || !provided) {
+    return false;
+  }
+
+  // Compare digests so the comparison takes the same time for any input length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(secret));
+}
+
 /**
  * Middleware helper to verify authentication in API routes
+ *
+ * On failure, `cause` is the typed error to respond with (an AuthError, or a
+ * ConfigurationError/ValidationError when the app can't be resolved).
  */
 export async function authenticateRequest(
   request: Request
-): Promise<{ authenticated: true; payload: JWTPayload } | { authenticated: false; error: string }> {
+): Promise<
+  | { authenticated: true; payload: AccessTokenPayload }
+  | { authenticated: false; error: string; cause: AppError }
+> {
   const authHeader = request.headers.get('Authorization');
   const token = extractBearerToken(authHeader);
 
   if (!token) {
-    return { authenticated: false, error: 'Missing authorization token' };
+    const cause = new AuthError('Missing authorization token', { code: 'MISSING_TOKEN' });
+    return { authenticated: false, error: cause.message, cause };
   }
 
   try {
-    const payload = await verifyAccessToken(token);
+    const payload = await verifyAccessToken(token, getRequestAppName(request));
     return { authenticated: true, payload };
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Authentication failed';
-    return { authenticated: false, error: message };
+    const cause =
+      error instanceof AppError ? error : new AuthError('Authentication failed', { cause: error });
+    return { authenticated: false, error: cause.message, cause };
   }
 }
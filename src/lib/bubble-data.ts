@@ -0,0 +1,619 @@
+/**
+ * Bubble Data API Client
+ *
+ * Typed, fluent access to the Bubble Data API on top of `callBubbleDataApi`:
+ *
+ *   const bubble = createBubbleClient({ baseUrl, apiToken });
+ *
+ *   const { response } = await bubble
+ *     .data<User>('user')
+ *     .where('email', 'equals', email)
+ *     .sort('Created Date', 'desc')
+ *     .limit(50)
+ *     .get();
+ *
+ * Queries are immutable: each method returns a new query, so a base query
+ * can be shared and refined.
+ *
+ * To read every match, iterate the query or collect it with `all()`:
+ *
+ *   for await (const user of bubble.data<User>('user')) { ... }
+ *
+ *   const users = await bubble.data<User>('user').all({ maxItems: 5000, concurrency: 4 });
+ *
+ * `data()` also offers single-thing operations (getById, create, modify,
+ * replace, delete) and bulk creation. Failed calls throw the typed errors
+ * from `@/lib/errors` (NotFoundError, ValidationError, BubbleApiError, ...)
+ * carrying Bubble's status, message and raw body.
+ *
+ * Add `.cache({ ttlMs })` to serve a query from the shared response cache
+ * (per API token, since Bubble's privacy rules depend on it);
+ * writes through `data()` invalidate cached queries of the same type.
+ */
+
+import { createHash } from 'crypto';
+import {
+  dataTypeCacheTag,
+  getResponseCache,
+  type BubbleDataResponse,
+  type CachePolicy,
+} from '@/shared/bubble';
+import {
+  callBubbleDataApi,
+  requestBubbleDataApi,
+  type BubbleApiConfig,
+  type BubbleCallOptions,
+} from '@/lib/bubble';
+import { ValidationError } from '@/lib/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Constraint types supported by the Bubble Data API
+ */
+export const BUBBLE_CONSTRAINT_TYPES = [
+  'equals',
+  'not equal',
+  'is_empty',
+  'is_not_empty',
+  'text contains',
+  'not text contains',
+  'greater than',
+  'less than',
+  'in',
+  'not in',
+  'contains',
+  'not contains',
+  'empty',
+  'not empty',
+  'geographic_search',
+] as const;
+
+export type BubbleConstraintType = (typeof BUBBLE_CONSTRAINT_TYPES)[number];
+
+/**
+ * Constraint types that take no value
+ */
+export type BubbleValuelessConstraint = 'is_empty' | 'is_not_empty' | 'empty' | 'not empty';
+
+/**
+ * Value for a `geographic_search` constraint
+ */
+export interface BubbleGeographicSearch {
+  /** Search radius */
+  range: number;
+
+  /** Address to search around */
+  origin_address: string;
+}
+
+/**
+ * Value accepted by each constraint type
+ */
+export type BubbleConstraintValue<C extends BubbleConstraintType> = C extends BubbleValuelessConstraint
+  ? never
+  : C extends 'in' | 'not in'
+    ? unknown[]
+    : C extends 'text contains' | 'not text contains'
+      ? string
+      : C extends 'greater than' | 'less than'
+        ? number | string | Date
+        : C extends 'geographic_search'
+          ? BubbleGeographicSearch
+          : unknown;
+
+/**
+ * A constraint as sent to Bubble
+ */
+export interface BubbleConstraint {
+  key: string;
+  constraint_type: BubbleConstraintType;
+  value?: unknown;
+}
+
+export type BubbleSortDirection = 'asc' | 'desc';
+
+interface BubbleSort {
+  field: string;
+  direction: BubbleSortDirection;
+}
+
+/**
+ * Field names of a thing, with autocomplete for known keys
+ * (Bubble also accepts display names such as "Created Date")
+ */
+export type BubbleFieldName<T> = (keyof T & string) | (string & {});
+
+/** Largest page Bubble returns */
+export const BUBBLE_MAX_PAGE_SIZE = 100;
+
+/**
+ * One page of Data API results
+ */
+export type BubbleDataPage<T> = BubbleDataResponse<T>['response'];
+
+/**
+ * Options for reading results across pages
+ */
+export interface BubblePaginationOptions extends BubbleCallOptions {
+  /** Stop after this many items (default: no limit) */
+  maxItems?: number;
+
+  /** Items per request, 1-100 (default: the query's limit, or 100) */
+  pageSize?: number;
+
+  /**
+   * Pages requested in parallel once the first page reveals the total
+   * (default: 1, which follows the cursor page by page)
+   */
+  concurrency?: number;
+}
+
+/**
+ * Fields Bubble adds to every thing
+ */
+export interface BubbleThingFields {
+  _id: string;
+  'Created Date': string;
+  'Modified Date': string;
+  'Created By'?: string;
+}
+
+/**
+ * Fields that can be written to a thing
+ */
+export type BubbleThingInput<T> = Partial<Omit<T, keyof BubbleThingFields>>;
+
+/**
+ * Outcome of a bulk create
+ */
+export interface BubbleBulkReport {
+  /** Items Bubble created, by position in the input */
+  succeeded: Array<{ index: number; id: string }>;
+
+  /** Items Bubble rejected, by position in the input */
+  failed: Array<{ index: number; message: string }>;
+}
+
+/** Most items Bubble accepts in one /bulk request */
+export const BUBBLE_MAX_BULK_ITEMS = 1000;
+
+interface QueryState {
+  constraints: BubbleConstraint[];
+  sorts: BubbleSort[];
+  limit?: number;
+  cursor?: number;
+  cache?: CachePolicy;
+}
+
+/**
+ * Cache key part for the credential a query runs with (a digest, never the token)
+ */
+function credentialScope(config: BubbleApiConfig): string {
+  return config.apiToken
+    ? createHash('sha256').update(config.apiToken).digest('base64url').slice(0, 22)
+    : 'anonymous';
+}
+
+// ============================================================================
+// Query Builder
+// ============================================================================
+
+/**
+ * A Data API search over one data type
+ */
+export class BubbleDataQuery<T = Record<string, unknown>> {
+  protected readonly config: BubbleApiConfig;
+  protected readonly dataType: string;
+  private readonly state: QueryState;
+
+  constructor(config: BubbleApiConfig, dataType: string, state?: QueryState) {
+    this.config = config;
+    this.dataType = dataType;
+    this.state = state ?? { constraints: [], sorts: [] };
+  }
+
+  /**
+   * Add a constraint (constraints are ANDed)
+   *
+   * @example
+   *   .where('status', 'equals', 'active')
+   *   .where('tags', 'contains', 'featured')
+   *   .where('avatar', 'is_not_empty')
+   *   .where('location', 'geographic_search', { range: 10, origin_address: 'London' })
+   */
+  where<C extends BubbleValuelessConstraint>(field: BubbleFieldName<T>, type: C): BubbleDataQuery<T>;
+  where<C extends Exclude<BubbleConstraintType, BubbleValuelessConstraint>>(
+    field: BubbleFieldName<T>,
+    type: C,
+    value: BubbleConstraintValue<C>
+  ): BubbleDataQuery<T>;
+  where(field: string, type: BubbleConstraintType, value?: unknown): BubbleDataQuery<T> {
+    if (!BUBBLE_CONSTRAINT_TYPES.includes(type)) {
+      throw new ValidationError(`Unknown Bubble constraint type: ${type}`);
+    }
+
+    const constraint: BubbleConstraint = { key: field, constraint_type: type };
+    if (value !== undefined) {
+      constraint.value = value;
+    }
+    return this.with({ constraints: [...this.state.constraints, constraint] });
+  }
+
+  /**
+   * Sort by a field; later calls add tie-breaking sorts
+   */
+  sort(field: BubbleFieldName<T>, direction: BubbleSortDirection = 'asc'): BubbleDataQuery<T> {
+    return this.with({ sorts: [...this.state.sorts, { field, direction }] });
+  }
+
+  /**
+   * Set the page size (1-100)
+   */
+  limit(count: number): BubbleDataQuery<T> {
+    if (!Number.isInteger(count) || count < 1 || count > BUBBLE_MAX_PAGE_SIZE) {
+      throw new ValidationError(`Bubble page size must be an integer from 1 to ${BUBBLE_MAX_PAGE_SIZE}`);
+    }
+    return this.with({ limit: count });
+  }
+
+  /**
+   * Start from a result offset (the `cursor` of a previous response plus its `count`)
+   */
+  cursor(offset: number): BubbleDataQuery<T> {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ValidationError('Bubble cursor must be a non-negative integer');
+    }
+    return this.with({ cursor: offset });
+  }
+
+  /**
+   * Serve results from the shared response cache
+   *
+   * Entries are per credential: the key includes a digest of the API token,
+   * since Bubble's privacy rules answer a user token differently from the
+   * admin key. Cached queries are tagged with `dataTypeCacheTag(type)`, which
+   * writes through `data(type)` invalidate.
+   */
+  cache(policy: CachePolicy): BubbleDataQuery<T> {
+    return this.with({ cache: policy });
+  }
+
+  /**
+   * Build the query string parameters
+   */
+  toSearchParams(): URLSearchParams {
+    const params = new URLSearchParams();
+    const { constraints, sorts, limit, cursor } = this.state;
+
+    if (constraints.length > 0) {
+      params.set('constraints', JSON.stringify(constraints));
+    }
+
+    const [primary, ...additional] = sorts;
+    if (primary) {
+      params.set('sort_field', primary.field);
+      params.set('descending', String(primary.direction === 'desc'));
+    }
+    if (additional.length > 0) {
+      params.set(
+        'additional_sort_fields',
+        JSON.stringify(
+          additional.map((sort) => ({ sort_field: sort.field, descending: sort.direction === 'desc' }))
+        )
+      );
+    }
+
+    if (limit !== undefined) {
+      params.set('limit', String(limit));
+    }
+    if (cursor !== undefined) {
+      params.set('cursor', String(cursor));
+    }
+
+    return params;
+  }
+
+  /**
+   * Build the Data API endpoint, e.g. "/obj/user?constraints=..."
+   */
+  toEndpoint(): string {
+    const query = this.toSearchParams().toString();
+    const path = `/obj/${encodeURIComponent(this.dataType)}`;
+    return query ? `${path}?${query}` : path;
+  }
+
+  /**
+   * Fetch one page of results
+   */
+  async get(options: BubbleCallOptions = {}): Promise<BubbleDataResponse<T>> {
+    const endpoint = this.toEndpoint();
+    const policy = this.state.cache;
+    if (!policy) {
+      return callBubbleDataApi<T>(this.config, endpoint, { ...options, method: 'GET' });
+    }
+
+    return getResponseCache().fetch(
+      `data:${credentialScope(this.config)}:${this.config.baseUrl}${endpoint}`,
+      { ...policy, tags: [...(policy.tags ?? []), dataTypeCacheTag(this.dataType)] },
+      // No caller signal: a cached call may be shared by several callers
+      () =>
+        callBubbleDataApi<T>(this.config, endpoint, {
+          ...options,
+          signal: undefined,
+          method: 'GET',
+        })
+    );
+  }
+
+  /**
+   * Fetch pages until Bubble reports nothing remaining
+   *
+   * Pages are yielded in order. With `concurrency` above 1, the cursors for
+   * the remaining pages are computed from the first page's totals and
+   * fetched in parallel.
+   */
+  async *pages(options: BubblePaginationOptions = {}): AsyncGenerator<BubbleDataPage<T>> {
+    const { maxItems = Infinity, pageSize, concurrency = 1, ...callOptions } = options;
+    const query = this.limit(pageSize ?? this.state.limit ?? BUBBLE_MAX_PAGE_SIZE);
+    const size = query.state.limit as number;
+
+    if (maxItems <= 0) {
+      return;
+    }
+
+    const fetchPage = async (offset: number) =>
+      (await query.cursor(offset).get(callOptions)).response;
+
+    let taken = 0;
+    const take = (page: BubbleDataPage<T>): BubbleDataPage<T> => {
+      const results = page.results.slice(0, maxItems - taken);
+      taken += results.length;
+      return { ...page, results, count: results.length };
+    };
+
+    const first = await fetchPage(this.state.cursor ?? 0);
+    yield take(first);
+
+    if (concurrency <= 1) {
+      let page = first;
+      while (page.remaining > 0 && page.count > 0 && taken < maxItems) {
+        page = await fetchPage(page.cursor + page.count);
+        yield take(page);
+      }
+      return;
+    }
+
+    const start = first.cursor + first.count;
+    const end = Math.min(start + first.remaining, first.cursor + maxItems);
+    const offsets: number[] = [];
+    for (let offset = start; offset < end; offset += size) {
+      offsets.push(offset);
+    }
+
+    const inFlight: Promise<BubbleDataPage<T>>[] = [];
+    let next = 0;
+    const startNext = () => {
+      const request = fetchPage(offsets[next++]);
+      // Rejections are surfaced when the page is awaited in order
+      request.catch(() => {});
+      inFlight.push(request);
+    };
+
+    while (next < offsets.length && inFlight.length < concurrency) {
+      startNext();
+    }
+    while (inFlight.length > 0 && taken < maxItems) {
+      const page = await (inFlight.shift() as Promise<BubbleDataPage<T>>);
+      if (next < offsets.length) {
+        startNext();
+      }
+      yield take(page);
+    }
+  }
+
+  /**
+   * Iterate over every matching thing, fetching pages as needed
+   */
+  async *items(options: BubblePaginationOptions = {}): AsyncGenerator<T> {
+    for await (const page of this.pages(options)) {
+      yield* page.results;
+    }
+  }
+
+  /**
+   * Collect every matching thing
+   */
+  async all(options: BubblePaginationOptions = {}): Promise<T[]> {
+    const results: T[] = [];
+    for await (const page of this.pages(options)) {
+      results.push(...page.results);
+    }
+    return results;
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<T> {
+    return this.items();
+  }
+
+  private with(changes: Partial<QueryState>): BubbleDataQuery<T> {
+    return new BubbleDataQuery<T>(this.config, this.dataType, { ...this.state, ...changes });
+  }
+}
+
+// ============================================================================
+// Things
+// ============================================================================
+
+/**
+ * A data type: query it, or read and write single things
+ */
+export class BubbleDataType<T = Record<string, unknown>> extends BubbleDataQuery<T> {
+  /**
+   * Fetch one thing by its unique ID
+   * @throws NotFoundError if it doesn't exist
+   */
+  async getById(id: string, options: BubbleCallOptions = {}): Promise<T & BubbleThingFields> {
+    const response = await requestBubbleDataApi(this.config, this.thingPath(id), {
+      ...options,
+      method: 'GET',
+    });
+    const body = (await response.json()) as { response: T & BubbleThingFields };
+    return body.response;
+  }
+
+  /**
+   * Create a thing
+   * @returns The new thing's unique ID
+   */
+  async create(fields: BubbleThingInput<T>, options: BubbleCallOptions = {}): Promise<string> {
+    const response = await requestBubbleDataApi(this.config, this.typePath(), {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify(fields),
+    });
+    const body = (await response.json()) as { id: string };
+    await this.invalidateCache();
+    return body.id;
+  }
+
+  /**
+   * Update some fields of a thing (PATCH), leaving the rest unchanged
+   */
+  async modify(id: string, fields: BubbleThingInput<T>, options: BubbleCallOptions = {}): Promise<void> {
+    await requestBubbleDataApi(this.config, this.thingPath(id), {
+      // Setting the same fields twice has the same effect as once
+      idempotent: true,
+      ...options,
+      method: 'PATCH',
+      body: JSON.stringify(fields),
+    });
+    await this.invalidateCache();
+  }
+
+  /**
+   * Replace every field of a thing (PUT); fields left out are cleared
+   */
+  async replace(id: string, fields: BubbleThingInput<T>, options: BubbleCallOptions = {}): Promise<void> {
+    await requestBubbleDataApi(this.config, this.thingPath(id), {
+      ...options,
+      method: 'PUT',
+      body: JSON.stringify(fields),
+    });
+    await this.invalidateCache();
+  }
+
+  /**
+   * Delete a thing
+   */
+  async delete(id: string, options: BubbleCallOptions = {}): Promise<void> {
+    await requestBubbleDataApi(this.config, this.thingPath(id), {
+      ...options,
+      method: 'DELETE',
+    });
+    await this.invalidateCache();
+  }
+
+  /**
+   * Create many things with Bubble's /bulk endpoint
+   *
+   * Items are sent as newline-delimited JSON, in batches of up to 1000.
+   * Bubble reports each line separately, so some items can fail while the
+   * rest are created; check `failed` in the report.
+   *
+   * @throws AppError (from `@/lib/errors`) if Bubble rejects a whole batch
+   */
+  async bulkCreate(
+    items: Array<BubbleThingInput<T>>,
+    options: BubbleCallOptions = {}
+  ): Promise<BubbleBulkReport> {
+    const report: BubbleBulkReport = { succeeded: [], failed: [] };
+
+    for (let start = 0; start < items.length; start += BUBBLE_MAX_BULK_ITEMS) {
+      const batch = items.slice(start, start + BUBBLE_MAX_BULK_ITEMS);
+      const response = await requestBubbleDataApi(this.config, `${this.typePath()}/bulk`, {
+        ...options,
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: batch.map((item) => JSON.stringify(item)).join('\n'),
+      });
+
+      const lines = (await response.text()).split('\n').filter((line) => line.trim() !== '');
+      batch.forEach((_, offset) => {
+        const index = start + offset;
+        const result = parseBulkLine(lines[offset]);
+        if (result.id) {
+          report.succeeded.push({ index, id: result.id });
+        } else {
+          report.failed.push({ index, message: result.message });
+        }
+      });
+    }
+
+    if (report.succeeded.length > 0) {
+      await this.invalidateCache();
+    }
+    return report;
+  }
+
+  /**
+   * Drop cached queries of this type after a write
+   */
+  private async invalidateCache(): Promise<void> {
+    await getResponseCache().invalidateTag(dataTypeCacheTag(this.dataType));
+  }
+
+  private typePath(): string {
+    return `/obj/${encodeURIComponent(this.dataType)}`;
+  }
+
+  private thingPath(id: string): string {
+    return `${this.typePath()}/${encodeURIComponent(id)}`;
+  }
+}
+
+/**
+ * Parse one line of a /bulk response:
+ * {"status":"success","id":"..."} or {"status":"error","message":"..."}
+ */
+function parseBulkLine(line: string | undefined): { id?: string; message: string } {
+  if (line === undefined) {
+    return { message: 'No result returned for this item' };
+  }
+
+  try {
+    const result = JSON.parse(line) as { status?: string; id?: string; message?: string };
+    if (result.status === 'success' && result.id) {
+      return { id: result.id, message: '' };
+    }
+    return { message: result.message ?? `Bubble returned status ${result.status ?? 'unknown'}` };
+  } catch {
+    return { message: line };
+  }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Bubble Data API client bound to one app
+ */
+export interface BubbleClient {
+  /**
+   * Query a data type, or read and write its things
+   * @param dataType - The type's API name (e.g., "user")
+   */
+  data<T = Record<string, unknown>>(dataType: string): BubbleDataType<T>;
+}
+
+/**
+ * Create a Data API client for a Bubble app
+ */
+export function createBubbleClient(config: BubbleApiConfig): BubbleClient {
+  return {
+    data: <T = Record<string, unknown>>(dataType: string) => new BubbleDataType<T>(config, dataType),
+  };
+}
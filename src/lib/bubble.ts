@@ -1,4 +1,44 @@
-import type { BubbleWorkflowResponse, BubbleDataResponse } from '@/shared/bubble';
+import type {
+  BubbleWorkflowResponse,
+  BubbleDataResponse,
+  WorkflowServices,
+} from '@/shared/bubble';
+import {
+  AppError,
+  AuthError,
+  BubbleApiError,
+  ConfigurationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from '@/lib/errors';
+import { sanitizeHtml, type HtmlSanitizerOptions } from '@/lib/sanitize';
+import { getBubbleApp, listBubbleApps } from '@/lib/tenants';
+
+/**
+ * Timeout and retry policy for Bubble API calls
+ */
+export interface BubbleRequestPolicy {
+  /** Timeout for each attempt, in milliseconds */
+  timeoutMs: number;
+
+  /** Retries after the first attempt (0 disables retrying) */
+  retries: number;
+
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay, in milliseconds */
+  maxDelayMs: number;
+
+  /** Longest Retry-After to wait for; longer waits fail instead of retrying */
+  maxRetryAfterMs: number;
+
+  /** Response statuses that are retried */
+  retryOn: number[];
+}
 
 /**
  * Configuration for Bubble API calls
@@ -7,8 +47,84 @@ export interface BubbleApiConfig {
   /** Full Bubble base URL (e.g., "https://app.creatorcore.co/version-04c") */
   baseUrl: string;
   apiToken?: string;
+
+  /** Overrides for the default timeout and retry policy */
+  requestPolicy?: Partial<BubbleRequestPolicy>;
+
+  /** Overrides for the default circuit breaker thresholds, or false to disable it */
+  circuitBreaker?: Partial<BubbleCircuitBreakerOptions> | false;
 }
 
+/**
+ * Circuit breaker thresholds
+ */
+export interface BubbleCircuitBreakerOptions {
+  /** Consecutive failed calls that open the circuit */
+  failureThreshold: number;
+
+  /** How long the circuit stays open before allowing a trial call, in milliseconds */
+  resetTimeoutMs: number;
+
+  /** Trial calls allowed at once while half-open */
+  halfOpenMaxCalls: number;
+}
+
+export type BubbleCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Point-in-time view of one circuit, as reported by /api/health
+ */
+export interface BubbleCircuitSnapshot {
+  /** Bubble base URL */
+  baseUrl: string;
+
+  /** Workflow name, or Data API path for Data API calls */
+  target: string;
+
+  state: BubbleCircuitState;
+
+  /** Consecutive failures so far */
+  failures: number;
+
+  /** When the circuit last opened (ISO 8601), or null */
+  openedAt: string | null;
+
+  /** When an open circuit will allow a trial call (ISO 8601), or null */
+  retryAt: string | null;
+}
+
+/**
+ * Per-call options for Bubble API calls
+ */
+export interface BubbleCallOptions {
+  /**
+   * The call is safe to repeat. Only idempotent calls are retried; workflows
+   * and Data API POSTs are unsafe unless marked, while GET, HEAD, PUT and
+   * DELETE Data API calls are idempotent by default.
+   */
+  idempotent?: boolean;
+
+  /** Cancels the call, including any pending retry */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_BUBBLE_REQUEST_POLICY: BubbleRequestPolicy = {
+  timeoutMs: 10000,
+  retries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 30000,
+  retryOn: [408, 429, 500, 502, 503, 504],
+};
+
+export const DEFAULT_BUBBLE_CIRCUIT_BREAKER: BubbleCircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  halfOpenMaxCalls: 1,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
 /**
  * Get the Bubble API URL from base URL
  * @param baseUrl - Full Bubble base URL (e.g., "https://app.creatorcore.co/version-04c")
@@ -28,14 +144,415 @@ export function getBubbleWorkflowUrl(baseUrl: string, workflowName: string): str
   return `${getBubbleApiUrl(baseUrl)}/wf/${workflowName}`;
 }
 
+/**
+ * Get the server's own Bubble config from BUBBLE_BASE_URL and BUBBLE_API_KEY
+ * @throws ConfigurationError if either is not set
+ */
+export function getServerBubbleConfig(): BubbleApiConfig {
+  const baseUrl = process.env.BUBBLE_BASE_URL;
+  const apiToken = process.env.BUBBLE_API_KEY;
+
+  if (!baseUrl) {
+    throw new ConfigurationError('BUBBLE_BASE_URL environment variable is not set');
+  }
+  if (!apiToken) {
+    throw new ConfigurationError('BUBBLE_API_KEY environment variable is not set');
+  }
+
+  return { baseUrl, apiToken };
+}
+
+/**
+ * Get the Bubble config for calls made on behalf of a token's app
+ *
+ * With BUBBLE_APPS set, every app signs its own tokens, so each is bound to
+ * its own backend (`baseUrl` / `apiKey`) rather than the server's.
+ * Without it, this is getServerBubbleConfig().
+ *
+ * @param appName - The token's `app` claim
+ * @throws AuthError (403, APP_NOT_ALLOWED) if the app has no Bubble backend registered
+ */
+export function getAppBubbleConfig(appName?: string | null): BubbleApiConfig {
+  if (listBubbleApps().length === 0) {
+    return getServerBubbleConfig();
+  }
+
+  const app = getBubbleApp(appName);
+  if (!app.backend) {
+    throw new AuthError(`Bubble app ${app.name} has no Bubble backend registered`, {
+      status: 403,
+      code: 'APP_NOT_ALLOWED',
+    });
+  }
+  return { baseUrl: app.backend.baseUrl, apiToken: app.backend.apiKey };
+}
+
+// ============================================================================
+// Timeouts and Retries
+// ============================================================================
+
+/**
+ * Error thrown when a Bubble call exceeds its per-attempt timeout
+ */
+export class BubbleTimeoutError extends TimeoutError {
+  constructor(timeoutMs: number) {
+    super(`Bubble request timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(policy: BubbleRequestPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Wait for a delay, stopping early if the call is cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Statuses whose responses can't carry a body
+ */
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+/**
+ * Make one attempt, aborting it after the policy timeout
+ *
+ * The timeout covers reading the body too: it is buffered here, so a
+ * response that stalls after its headers still times out. Callers get a
+ * Response over the buffered body.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new BubbleTimeoutError(timeoutMs)), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+    });
+    const body = NULL_BODY_STATUSES.includes(response.status) ? null : await response.arrayBuffer();
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw controller.signal.reason;
+    }
+    // Cancellation by the caller propagates as-is
+    if (signal?.aborted) {
+      throw error;
+    }
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new NetworkError(`Could not reach Bubble: ${reason}`, { cause: error });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+/**
+ * Error thrown instead of calling Bubble while a circuit is open
+ */
+export class BubbleCircuitOpenError extends AppError {
+  /** Bubble base URL */
+  readonly baseUrl: string;
+
+  /** Workflow name or Data API path */
+  readonly target: string;
+
+  /** Milliseconds until the circuit allows a trial call */
+  readonly retryAfterMs: number;
+
+  constructor(baseUrl: string, target: string, retryAfterMs: number) {
+    super(`Bubble circuit open for ${target}; retry in ${Math.ceil(retryAfterMs / 1000)}s`, {
+      status: 503,
+      code: 'BUBBLE_UNAVAILABLE',
+      retryable: true,
+      retryAfter: Math.ceil(retryAfterMs / 1000),
+    });
+    this.baseUrl = baseUrl;
+    this.target = target;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+interface Circuit {
+  baseUrl: string;
+  target: string;
+  state: BubbleCircuitState;
+  failures: number;
+  openedAt: number | null;
+  halfOpenCalls: number;
+}
+
+/**
+ * Circuits by base URL and target. Process-local, like the other in-memory
+ * state, so each serverless instance trips independently.
+ */
+const circuits: Map<string, Circuit> = new Map();
+
+function getCircuit(baseUrl: string, target: string): Circuit {
+  const key = `${baseUrl}|${target}`;
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { baseUrl, target, state: 'closed', failures: 0, openedAt: null, halfOpenCalls: 0 };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Let a call through, or throw if its circuit is open
+ */
+function acquireCircuit(circuit: Circuit, options: BubbleCircuitBreakerOptions): void {
+  if (circuit.state === 'open') {
+    const retryAfterMs = (circuit.openedAt ?? 0) + options.resetTimeoutMs - Date.now();
+    if (retryAfterMs > 0) {
+      throw new BubbleCircuitOpenError(circuit.baseUrl, circuit.target, retryAfterMs);
+    }
+    circuit.state = 'half-open';
+    circuit.halfOpenCalls = 0;
+  }
+
+  if (circuit.state === 'half-open') {
+    if (circuit.halfOpenCalls >= options.halfOpenMaxCalls) {
+      throw new BubbleCircuitOpenError(circuit.baseUrl, circuit.target, options.resetTimeoutMs);
+    }
+    circuit.halfOpenCalls++;
+  }
+}
+
+/**
+ * Record the outcome of a call that was let through
+ */
+function releaseCircuit(
+  circuit: Circuit,
+  options: BubbleCircuitBreakerOptions,
+  succeeded: boolean
+): void {
+  if (succeeded) {
+    circuit.state = 'closed';
+    circuit.failures = 0;
+    circuit.openedAt = null;
+    return;
+  }
+
+  circuit.failures++;
+  if (circuit.state === 'half-open' || circuit.failures >= options.failureThreshold) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Whether a response means Bubble itself is struggling (as opposed to a bad request)
+ */
+function isBubbleFailure(response: Response): boolean {
+  return response.status >= 500 || response.status === 429;
+}
+
+/**
+ * Key Data API circuits by data type ("/obj/user"), not by individual thing
+ */
+function toDataApiTarget(url: string): string {
+  const path = new URL(url).pathname.replace(/^.*\/api\/1\.1/, '');
+  return path.split('/').slice(0, 3).join('/');
+}
+
+/**
+ * Get the state of every Bubble circuit seen by this process
+ */
+export function getBubbleCircuitStates(
+  options: Partial<BubbleCircuitBreakerOptions> = {}
+): BubbleCircuitSnapshot[] {
+  const { resetTimeoutMs } = { ...DEFAULT_BUBBLE_CIRCUIT_BREAKER, ...options };
+
+  const now = Date.now();
+
+  return Array.from(circuits.values()).map((circuit) => {
+    const retryAt =
+      circuit.state === 'open' && circuit.openedAt ? circuit.openedAt + resetTimeoutMs : null;
+
+    return {
+      baseUrl: circuit.baseUrl,
+      target: circuit.target,
+      // An open circuit whose timeout has passed lets the next call through
+      state: retryAt !== null && retryAt <= now ? 'half-open' : circuit.state,
+      failures: circuit.failures,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+      retryAt: retryAt !== null && retryAt > now ? new Date(retryAt).toISOString() : null,
+    };
+  });
+}
+
+/**
+ * Close every circuit (e.g., after fixing the Bubble app)
+ */
+export function resetBubbleCircuits(): void {
+  circuits.clear();
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Fetch from Bubble under the config's circuit breaker
+ *
+ * The whole call, including retries, counts as one success or failure.
+ * Network errors, timeouts, 429 and 5xx responses are failures.
+ *
+ * @param target - Workflow name or Data API path the circuit is keyed by
+ * @throws BubbleCircuitOpenError if the circuit is open
+ */
+async function fetchFromBubble(
+  config: BubbleApiConfig,
+  target: string,
+  url: string,
+  init: RequestInit,
+  options: BubbleCallOptions
+): Promise<Response> {
+  if (config.circuitBreaker === false) {
+    return fetchWithPolicy(config, url, init, options);
+  }
+
+  const breaker = { ...DEFAULT_BUBBLE_CIRCUIT_BREAKER, ...config.circuitBreaker };
+  const circuit = getCircuit(config.baseUrl, target);
+  acquireCircuit(circuit, breaker);
+
+  let response: Response;
+  try {
+    response = await fetchWithPolicy(config, url, init, options);
+  } catch (error) {
+    // A call cancelled by the caller says nothing about Bubble's health
+    if (options.signal?.aborted) {
+      if (circuit.state === 'half-open') {
+        circuit.halfOpenCalls--;
+      }
+    } else {
+      releaseCircuit(circuit, breaker, false);
+    }
+    throw error;
+  }
+
+  releaseCircuit(circuit, breaker, !isBubbleFailure(response));
+  return response;
+}
+
+/**
+ * Fetch from Bubble under the config's timeout and retry policy
+ *
+ * Idempotent calls are retried on network errors, timeouts and retryable
+ * statuses, waiting for Retry-After when Bubble sends one and otherwise
+ * backing off exponentially. Unsafe calls get a single attempt.
+ *
+ * @returns The last response, which may still be an error status
+ */
+async function fetchWithPolicy(
+  config: BubbleApiConfig,
+  url: string,
+  init: RequestInit,
+  options: BubbleCallOptions
+): Promise<Response> {
+  const policy = { ...DEFAULT_BUBBLE_REQUEST_POLICY, ...config.requestPolicy };
+  const retries = options.idempotent ? policy.retries : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, init, policy.timeoutMs, options.signal);
+    } catch (error) {
+      // Network errors and timeouts are retryable; caller cancellation is not
+      if (attempt >= retries || options.signal?.aborted) {
+        throw error;
+      }
+      await sleep(backoffDelay(policy, attempt), options.signal);
+      continue;
+    }
+
+    if (attempt >= retries || !policy.retryOn.includes(response.status)) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== null && retryAfter > policy.maxRetryAfterMs) {
+      return response;
+    }
+
+    await sleep(retryAfter ?? backoffDelay(policy, attempt), options.signal);
+  }
+}
+
+// ============================================================================
+// API Calls
+// ============================================================================
+
 /**
  * Call a Bubble workflow
  * Note: This is primarily used server-side. Client-side calls should use the services provided to the widget.
+ *
+ * Workflows are only retried when marked `idempotent`, since repeating one
+ * may repeat its side effects.
+ *
+ * @throws NotFoundError, ValidationError, AuthError, RateLimitError or
+ *         BubbleApiError (from `@/lib/errors`) if Bubble responds with an error status
+ * @throws NetworkError or BubbleTimeoutError if Bubble can't be reached
+ * @throws BubbleCircuitOpenError if the workflow's circuit is open
  */
 export async function callBubbleWorkflow(
   config: BubbleApiConfig,
   workflowName: string,
-  params?: Record<string, unknown>
+  params?: Record<string, unknown>,
+  options: BubbleCallOptions = {}
 ): Promise<BubbleWorkflowResponse> {
   const url = getBubbleWorkflowUrl(config.baseUrl, workflowName);
 
@@ -47,87 +564,229 @@ export async function callBubbleWorkflow(
     headers['Authorization'] = `Bearer ${config.apiToken}`;
   }
 
-  try {
-    const response = await fetch(url, {
+  const response = await fetchFromBubble(
+    config,
+    workflowName,
+    url,
+    {
       method: 'POST',
       headers,
       body: JSON.stringify(params || {}),
-    });
+    },
+    options
+  );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      return {
-        status: 'error',
-        error: `Workflow failed: ${response.status} - ${errorText}`,
-      };
-    }
+  if (!response.ok) {
+    throw await toBubbleError(response);
+  }
 
-    const data = await response.json();
-    return {
-      status: 'success',
-      response: data,
-    };
-  } catch (error) {
-    return {
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+  const data = await response.json();
+  return {
+    status: 'success',
+    response: data,
+  };
+}
+
+/**
+ * Pull Bubble's status and message out of an error body, which is either
+ * { status, message } or wrapped as { statusCode, body: { status, message } }
+ */
+function readBubbleErrorBody(body: unknown): { status: string | null; message: string | null } {
+  if (!body || typeof body !== 'object') {
+    return { status: null, message: null };
   }
+
+  const record = body as Record<string, unknown>;
+  const inner =
+    record.body && typeof record.body === 'object' ? (record.body as Record<string, unknown>) : record;
+
+  return {
+    status: typeof inner.status === 'string' ? inner.status : null,
+    message: typeof inner.message === 'string' ? inner.message : null,
+  };
 }
 
 /**
- * Call the Bubble Data API
- * Note: This is primarily used server-side. Client-side calls should use the services provided to the widget.
+ * Read a response body as JSON when it is JSON, otherwise as text
  */
-export async function callBubbleDataApi<T = unknown>(
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Turn a Bubble error response into the matching typed error
+ *
+ * 400 → ValidationError, 401/403 → AuthError, 404 → NotFoundError,
+ * 429 → RateLimitError, anything else → BubbleApiError (retryable for 5xx).
+ * Each keeps Bubble's HTTP status and raw body.
+ *
+ * @param exposeBody - Also return the raw body to the client in `details.response`
+ *                     (for development tools such as workflow discovery)
+ */
+export async function toBubbleError(response: Response, exposeBody = false): Promise<AppError> {
+  const { status } = response;
+  const body = await readBody(response);
+  const bubble = readBubbleErrorBody(body);
+
+  const reason = bubble.message ?? (typeof body === 'string' ? body.slice(0, 200) : '');
+  const message = `Bubble API error: ${status}${reason ? ` - ${reason}` : ''}`;
+  const details = {
+    ...(bubble.status && { bubbleStatus: bubble.status }),
+    ...(exposeBody && { response: body }),
+  };
+  const options = {
+    status,
+    body,
+    ...(Object.keys(details).length > 0 && { details }),
+  };
+
+  switch (status) {
+    case 400:
+      return new ValidationError(message, options);
+    case 401:
+    case 403:
+      return new AuthError(message, { ...options, code: 'BUBBLE_UNAUTHORIZED' });
+    case 404:
+      return new NotFoundError(message, options);
+    case 429: {
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      return new RateLimitError(message, {
+        ...options,
+        retryAfter: retryAfterMs === null ? null : Math.ceil(retryAfterMs / 1000),
+      });
+    }
+    default:
+      return new BubbleApiError(message, { ...options, retryable: status >= 500 });
+  }
+}
+
+/**
+ * Services for `createWorkflowClient` that call Bubble directly
+ *
+ * Use on the server, where there are no widget services:
+ *
+ *   const workflows = createWorkflowClient(createServerWorkflowServices());
+ *
+ * Resolves to Bubble's response body; errors are thrown as from callBubbleWorkflow.
+ */
+export function createServerWorkflowServices(
+  config: BubbleApiConfig = getServerBubbleConfig()
+): WorkflowServices {
+  return {
+    callBubbleWorkflow: async (name, params) => {
+      const result = await callBubbleWorkflow(config, name, params);
+      return result.response;
+    },
+  };
+}
+
+/**
+ * Make a Bubble Data API request and return the raw response
+ * Use this for endpoints that don't return JSON (e.g., 204 responses or /bulk).
+ *
+ * GET, HEAD, PUT and DELETE calls are retried; pass `idempotent` to override.
+ *
+ * @throws NotFoundError, ValidationError, AuthError, RateLimitError or
+ *         BubbleApiError (from `@/lib/errors`) if Bubble responds with an error status
+ * @throws NetworkError or BubbleTimeoutError if Bubble can't be reached
+ * @throws BubbleCircuitOpenError if the endpoint's circuit is open
+ */
+export async function requestBubbleDataApi(
   config: BubbleApiConfig,
   endpoint: string,
-  options: RequestInit = {}
-): Promise<BubbleDataResponse<T>> {
+  options: RequestInit & BubbleCallOptions = {}
+): Promise<Response> {
+  const { idempotent, signal, ...init } = options;
+  const method = (init.method ?? 'GET').toUpperCase();
+
   const apiBaseUrl = getBubbleApiUrl(config.baseUrl);
   const url = `${apiBaseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    ...(options.headers as Record<string, string>),
+    ...(init.headers as Record<string, string>),
   };
 
   if (config.apiToken) {
     headers['Authorization'] = `Bearer ${config.apiToken}`;
   }
 
-  const response = await fetch(url, {
-    ...options,
-    headers,
-  });
+  const response = await fetchFromBubble(
+    config,
+    toDataApiTarget(url),
+    url,
+    { ...init, headers },
+    {
+      idempotent: idempotent ?? IDEMPOTENT_METHODS.includes(method),
+      signal: signal ?? undefined,
+    }
+  );
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Bubble API error: ${response.status} - ${errorText}`);
+    throw await toBubbleError(response);
   }
 
+  return response;
+}
+
+/**
+ * Call the Bubble Data API
+ * Note: This is primarily used server-side. Client-side calls should use the services provided to the widget.
+ *
+ * GET, HEAD, PUT and DELETE calls are retried; pass `idempotent` to override.
+ *
+ * @throws NotFoundError, ValidationError, AuthError, RateLimitError or
+ *         BubbleApiError (from `@/lib/errors`) if Bubble responds with an error status
+ * @throws NetworkError or BubbleTimeoutError if Bubble can't be reached
+ * @throws BubbleCircuitOpenError if the endpoint's circuit is open
+ */
+export async function callBubbleDataApi<T = unknown>(
+  config: BubbleApiConfig,
+  endpoint: string,
+  options: RequestInit & BubbleCallOptions = {}
+): Promise<BubbleDataResponse<T>> {
+  const response = await requestBubbleDataApi(config, endpoint, options);
   return response.json();
 }
 
 /**
- * Sanitize data received from Bubble
- * Removes potentially dangerous content from strings
+ * Options for sanitizeBubbleData
  */
-export function sanitizeBubbleData<T>(data: T): T {
+export interface SanitizeBubbleDataOptions {
+  /**
+   * 'html' (default): strings are sanitized as HTML, safe for innerHTML
+   * 'text': strings are left untouched, for rendering as text (e.g. React children)
+   */
+  mode?: 'html' | 'text';
+
+  /** Allowlist overrides for 'html' mode */
+  html?: Partial<HtmlSanitizerOptions>;
+}
+
+/**
+ * Sanitize data received from Bubble, including nested objects and arrays
+ *
+ * In 'html' mode every string goes through `sanitizeHtml` (see `@/lib/sanitize`),
+ * so it can be rendered as HTML. In 'text' mode strings are returned as is;
+ * use it for values rendered as text, where escaping them would show entities.
+ * Both modes drop `__proto__` keys and strip markup characters from keys.
+ */
+export function sanitizeBubbleData<T>(data: T, options: SanitizeBubbleDataOptions = {}): T {
   if (data === null || data === undefined) {
     return data;
   }
 
   if (typeof data === 'string') {
-    // Basic XSS prevention - remove script tags and event handlers
-    let sanitized = data
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/on\w+\s*=/gi, 'data-removed=');
-    return sanitized as T;
+    return (options.mode === 'text' ? data : sanitizeHtml(data, options.html)) as T;
   }
 
   if (Array.isArray(data)) {
-    return data.map(sanitizeBubbleData) as T;
+    return data.map((item) => sanitizeBubbleData(item, options)) as T;
   }
 
   if (typeof data === 'object') {
@@ -135,7 +794,8 @@ export function sanitizeBubbleData<T>(data: T): T {
     for (const [key, value] of Object.entries(data)) {
       // Skip keys that look like they could be injection attempts
       const sanitizedKey = key.replace(/[<>"'&]/g, '');
-      sanitized[sanitizedKey] = sanitizeBubbleData(value);
+      if (sanitizedKey === '__proto__') continue;
+      sanitized[sanitizedKey] = sanitizeBubbleData(value, options);
     }
     return sanitized as T;
   }
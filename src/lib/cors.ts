@@ -0,0 +1,94 @@
+/**
+ * CORS Headers
+ *
+ * Builds CORS headers for API routes from the per-app origin allowlists in
+ * the tenant registry (or ALLOWED_ORIGINS in single-app mode). A matching
+ * Origin is reflected back; other origins get no Access-Control-Allow-Origin
+ * header, so the browser blocks the response. Apps without an allowlist
+ * accept any origin.
+ *
+ *   const cors: CorsOptions = { methods: ['POST'] };
+ *
+ *   export function OPTIONS(request: NextRequest) {
+ *     return corsPreflight(request, cors);
+ *   }
+ *
+ *   return NextResponse.json(data, { headers: getCorsHeaders(request, cors) });
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  BUBBLE_APP_HEADER,
+  getAllowedOrigins,
+  getRequestAppName,
+  matchesAllowedOrigin,
+} from '@/lib/tenants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CorsOptions {
+  /** Methods the route accepts (OPTIONS is added automatically) */
+  methods: string[];
+
+  /** Request headers the route accepts */
+  allowHeaders?: string[];
+
+  /** How long browsers may cache a preflight, in seconds */
+  maxAge?: number;
+}
+
+const DEFAULT_ALLOW_HEADERS = ['Content-Type', 'Authorization', BUBBLE_APP_HEADER];
+
+const DEFAULT_MAX_AGE = 86400;
+
+// ============================================================================
+// Headers
+// ============================================================================
+
+/**
+ * Get the CORS headers for a request
+ *
+ * Uses the allowlist of the app named in X-Bubble-App-Name, or of every app
+ * when the header is missing or unknown. Never throws: if the tenant registry
+ * can't be read, no origin is allowed, so routes can still build their error
+ * responses with these headers.
+ */
+export function getCorsHeaders(request: Request, options: CorsOptions): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': [...options.methods, 'OPTIONS'].join(', '),
+    'Access-Control-Allow-Headers': (options.allowHeaders ?? DEFAULT_ALLOW_HEADERS).join(', '),
+    Vary: 'Origin',
+  };
+
+  let allowedOrigins: string[] | null;
+  try {
+    allowedOrigins = getAllowedOrigins(getRequestAppName(request));
+  } catch (error) {
+    console.error('Could not read allowed origins:', error);
+    return headers;
+  }
+  const origin = request.headers.get('Origin');
+
+  if (!allowedOrigins) {
+    headers['Access-Control-Allow-Origin'] = '*';
+  } else if (origin && matchesAllowedOrigin(origin, allowedOrigins)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+
+  return headers;
+}
+
+/**
+ * Respond to a CORS preflight request
+ */
+export function corsPreflight(request: Request, options: CorsOptions): NextResponse {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...getCorsHeaders(request, options),
+      'Access-Control-Max-Age': String(options.maxAge ?? DEFAULT_MAX_AGE),
+    },
+  });
+}
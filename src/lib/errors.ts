@@ -0,0 +1,186 @@
+/**
+ * Error Hierarchy
+ *
+ * Typed errors for API and Bubble failures. Every error carries the HTTP
+ * status and code to respond with, whether retrying might succeed, and the
+ * raw upstream body when there is one. Routes turn any thrown error into an
+ * ApiResponse with `errorResponse()`:
+ *
+ *   try {
+ *     ...
+ *   } catch (error) {
+ *     return errorResponse(error, corsHeaders);
+ *   }
+ */
+
+import { NextResponse } from 'next/server';
+import type { ApiResponse } from '@/shared/bubble';
+
+// ============================================================================
+// Base Error
+// ============================================================================
+
+export interface AppErrorOptions {
+  /** HTTP status to respond with */
+  status?: number;
+
+  /** Machine-readable error code */
+  code?: string;
+
+  /** Whether the same request might succeed later */
+  retryable?: boolean;
+
+  /** Seconds to wait before retrying, if known (sent as Retry-After) */
+  retryAfter?: number | null;
+
+  /** Raw response body from the upstream service, if any */
+  body?: unknown;
+
+  /** Extra information safe to return to the client */
+  details?: unknown;
+
+  /** The underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors that map onto an API response
+ */
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly retryable: boolean;
+  readonly retryAfter: number | null;
+  readonly body: unknown;
+  readonly details: unknown;
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.status = options.status ?? 500;
+    this.code = options.code ?? 'INTERNAL_ERROR';
+    this.retryable = options.retryable ?? false;
+    this.retryAfter = options.retryAfter ?? null;
+    this.body = options.body;
+    this.details = options.details;
+  }
+
+  /**
+   * The `error` member of an ApiResponse
+   */
+  toApiError(): NonNullable<ApiResponse['error']> {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+/**
+ * Missing, invalid or insufficient credentials (401 by default, 403 for forbidden)
+ */
+export class AuthError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 401, code: 'UNAUTHORIZED', ...options });
+  }
+}
+
+/**
+ * Too many requests, either ours or Bubble's
+ */
+export class RateLimitError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 429, code: 'RATE_LIMITED', retryable: true, ...options });
+  }
+}
+
+/**
+ * The requested thing doesn't exist
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 404, code: 'NOT_FOUND', ...options });
+  }
+}
+
+/**
+ * The request (or data sent upstream) is malformed or fails validation
+ */
+export class ValidationError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 400, code: 'VALIDATION_ERROR', ...options });
+  }
+}
+
+/**
+ * An upstream service couldn't be reached
+ */
+export class NetworkError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 502, code: 'NETWORK_ERROR', retryable: true, ...options });
+  }
+}
+
+/**
+ * An upstream service didn't answer in time
+ */
+export class TimeoutError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 504, code: 'TIMEOUT', retryable: true, ...options });
+  }
+}
+
+/**
+ * Bubble reported an error that doesn't fit a more specific type
+ */
+export class BubbleApiError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 502, code: 'BUBBLE_ERROR', ...options });
+  }
+}
+
+/**
+ * The server is misconfigured (missing secrets, invalid key sets, ...)
+ */
+export class ConfigurationError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 500, code: 'SERVER_CONFIG_ERROR', ...options });
+  }
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * Convert anything thrown into an ApiResponse error response
+ *
+ * AppErrors keep their status and code, and send Retry-After when they know
+ * the retry delay. Anything else is logged and reported as a generic 500 so
+ * internal messages don't leak to clients.
+ */
+export function errorResponse(
+  error: unknown,
+  headers: Record<string, string> = {}
+): NextResponse<ApiResponse<never>> {
+  if (!(error instanceof AppError)) {
+    console.error('Unexpected error:', error);
+    error = new AppError('An unexpected error occurred');
+  }
+
+  const appError = error as AppError;
+  const responseHeaders = { ...headers };
+  if (appError.retryAfter !== null) {
+    responseHeaders['Retry-After'] = String(appError.retryAfter);
+  }
+
+  return NextResponse.json(
+    { success: false, error: appError.toApiError() },
+    { status: appError.status, headers: responseHeaders }
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * Asymmetric Signing Keys
+ *
+ * Loads the RS256/ES256 key set used to sign access tokens, and resolves the
+ * JWKS used to verify incoming Bubble tokens.
+ *
+ * Access token keys are a private JWK Set, read from ACCESS_TOKEN_JWKS (JSON)
+ * or ACCESS_TOKEN_JWKS_FILE (path). Each key needs a `kid` and an `alg`.
+ * The key named by ACCESS_TOKEN_SIGNING_KID (or the first key) signs new
+ * tokens; every key in the set verifies and is published at
+ * /.well-known/jwks.json.
+ *
+ * To rotate: append the new key and deploy, so it is published before it is
+ * used; once other backends have refetched the JWKS, point
+ * ACCESS_TOKEN_SIGNING_KID at it. Remove the old key once the longest-lived
+ * token it signed has expired.
+ *
+ * When no key set is configured, access tokens fall back to HS256 with the
+ * app's shared secret.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  importJWK,
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  type JWK,
+  type JSONWebKeySet,
+  type JWSHeaderParameters,
+  type FlattenedJWSInput,
+  type CryptoKey,
+} from 'jose';
+import { ConfigurationError } from '@/lib/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Asymmetric algorithms supported for access tokens
+ */
+export const ASYMMETRIC_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export type AsymmetricAlgorithm = (typeof ASYMMETRIC_ALGORITHMS)[number];
+
+/**
+ * A loaded signing key
+ */
+export interface SigningKey {
+  /** Key ID, written to the `kid` token header */
+  kid: string;
+
+  /** Signing algorithm */
+  alg: AsymmetricAlgorithm;
+
+  /** Private key for signing */
+  privateKey: CryptoKey;
+
+  /** Public key for verification */
+  publicKey: CryptoKey;
+
+  /** Public JWK, as published in the JWKS */
+  publicJwk: JWK;
+}
+
+/**
+ * Where to find the JWKS for verifying incoming Bubble tokens
+ */
+export interface BubbleJwksSource {
+  /** Remote JWKS URL (fetched and cached) */
+  url?: string;
+
+  /** Local JWKS file path */
+  file?: string;
+}
+
+/**
+ * Key resolver accepted by jose's jwtVerify
+ */
+export type JwksResolver = (
+  protectedHeader?: JWSHeaderParameters,
+  token?: FlattenedJWSInput
+) => Promise<CryptoKey>;
+
+/** JWK members that hold private key material */
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'k'] as const;
+
+// ============================================================================
+// Access Token Keys
+// ============================================================================
+
+let keySetPromise: Promise<SigningKey[]> | null = null;
+
+/**
+ * Read the private JWK Set from ACCESS_TOKEN_JWKS or ACCESS_TOKEN_JWKS_FILE
+ */
+function readAccessTokenJwks(): JSONWebKeySet | null {
+  const inline = process.env.ACCESS_TOKEN_JWKS;
+  const file = process.env.ACCESS_TOKEN_JWKS_FILE;
+
+  let raw: string;
+  if (inline) {
+    raw = inline;
+  } else if (file) {
+    raw = readFileSync(path.resolve(file), 'utf-8');
+  } else {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as JSONWebKeySet;
+  } catch {
+    throw new ConfigurationError('ACCESS_TOKEN_JWKS is not valid JSON');
+  }
+}
+
+/**
+ * Strip private members from a JWK
+ */
+function toPublicJwk(jwk: JWK): JWK {
+  const publicJwk: JWK = { ...jwk };
+  for (const member of PRIVATE_JWK_MEMBERS) {
+    delete publicJwk[member];
+  }
+  delete publicJwk.key_ops;
+  return { ...publicJwk, use: 'sig' };
+}
+
+async function loadKeySet(): Promise<SigningKey[]> {
+  const jwks = readAccessTokenJwks();
+  if (!jwks) {
+    return [];
+  }
+
+  const keys: SigningKey[] = [];
+  for (const jwk of jwks.keys) {
+    if (!jwk.kid) {
+      throw new ConfigurationError('ACCESS_TOKEN_JWKS keys must have a kid');
+    }
+    if (!ASYMMETRIC_ALGORITHMS.includes(jwk.alg as AsymmetricAlgorithm)) {
+      throw new ConfigurationError(
+        `ACCESS_TOKEN_JWKS key "${jwk.kid}" must use one of ${ASYMMETRIC_ALGORITHMS.join(', ')}`
+      );
+    }
+    if (!jwk.d) {
+      throw new ConfigurationError(`ACCESS_TOKEN_JWKS key "${jwk.kid}" is missing its private key`);
+    }
+
+    const alg = jwk.alg as AsymmetricAlgorithm;
+    const publicJwk = toPublicJwk(jwk);
+
+    keys.push({
+      kid: jwk.kid,
+      alg,
+      privateKey: (await importJWK(jwk, alg)) as CryptoKey,
+      publicKey: (await importJWK(publicJwk, alg)) as CryptoKey,
+      publicJwk,
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Get every configured access token key (active and retiring)
+ */
+export function getAccessTokenKeys(): Promise<SigningKey[]> {
+  if (!keySetPromise) {
+    keySetPromise = loadKeySet().catch((error) => {
+      // Don't cache failures, so a fixed configuration is picked up
+      keySetPromise = null;
+      throw error;
+    });
+  }
+  return keySetPromise;
+}
+
+/**
+ * Get the key used to sign new access tokens
+ * @returns The active key, or null when access tokens use HS256
+ */
+export async function getActiveSigningKey(): Promise<SigningKey | null> {
+  const keys = await getAccessTokenKeys();
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const activeKid = process.env.ACCESS_TOKEN_SIGNING_KID;
+  if (!activeKid) {
+    return keys[0];
+  }
+
+  const key = keys.find((k) => k.kid === activeKid);
+  if (!key) {
+    throw new ConfigurationError(`ACCESS_TOKEN_SIGNING_KID "${activeKid}" is not in ACCESS_TOKEN_JWKS`);
+  }
+  return key;
+}
+
+/**
+ * Find the public key for a `kid`/`alg` token header
+ * @returns The public key, or null if no configured key matches
+ */
+export async function getVerificationKey(
+  kid: string | undefined,
+  alg: string | undefined
+): Promise<CryptoKey | null> {
+  if (!kid) {
+    return null;
+  }
+  const keys = await getAccessTokenKeys();
+  const key = keys.find((k) => k.kid === kid && k.alg === alg);
+  return key ? key.publicKey : null;
+}
+
+/**
+ * Get the public JWKS to publish at /.well-known/jwks.json
+ */
+export async function getPublicJwks(): Promise<JSONWebKeySet> {
+  const keys = await getAccessTokenKeys();
+  return { keys: keys.map((k) => k.publicJwk) };
+}
+
+// ============================================================================
+// Bubble Token JWKS
+// ============================================================================
+
+const jwksResolvers: Map<string, JwksResolver> = new Map();
+
+/**
+ * Get a cached key resolver for a Bubble JWKS source
+ */
+export function getBubbleJwksResolver(source: BubbleJwksSource): JwksResolver {
+  const cacheKey = source.url ? `url:${source.url}` : `file:${source.file}`;
+  const cached = jwksResolvers.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let resolver: JwksResolver;
+  if (source.url) {
+    resolver = createRemoteJWKSet(new URL(source.url));
+  } else if (source.file) {
+    const content = readFileSync(path.resolve(source.file), 'utf-8');
+    resolver = createLocalJWKSet(JSON.parse(content) as JSONWebKeySet);
+  } else {
+    throw new ConfigurationError('Bubble JWKS source needs a url or file');
+  }
+
+  jwksResolvers.set(cacheKey, resolver);
+  return resolver;
+}
@@ -0,0 +1,449 @@
+/**
+ * Rate Limiting
+ *
+ * Sliding-window rate limits for public routes, plus a temporary lockout for
+ * sources that keep failing token signature checks.
+ *
+ * Each limit keeps a counter for the current and previous fixed window and
+ * weights the previous count by how much of it still overlaps the sliding
+ * window. This approximates a true sliding log with two numbers per key.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A limit applied to one kind of key (IP, app, subject, ...)
+ */
+export interface RateLimitRule {
+  /** Namespace for keys counted by this rule */
+  prefix: string;
+
+  /** Maximum requests per window */
+  limit: number;
+
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Lockout applied after repeated failures from one source
+ */
+export interface LockoutRule {
+  /** Namespace for keys counted by this rule */
+  prefix: string;
+
+  /** Failures within the window that trigger a lockout */
+  maxFailures: number;
+
+  /** Window in which failures are counted, in milliseconds */
+  windowMs: number;
+
+  /** How long the lockout lasts, in milliseconds */
+  lockoutMs: number;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+
+  /** The limit that was checked */
+  limit: number;
+
+  /** Requests left in the current window */
+  remaining: number;
+
+  /** Seconds until the caller may retry (0 when allowed) */
+  retryAfter: number;
+}
+
+/**
+ * Hit counts for a key's current and previous window
+ */
+export interface WindowCounts {
+  /** Start of the current window (ms since epoch) */
+  windowStart: number;
+
+  /** Hits in the current window */
+  current: number;
+
+  /** Hits in the previous window */
+  previous: number;
+}
+
+/**
+ * Storage backend for rate limit counters and lockouts.
+ * Implement this to share limits across instances (e.g., with Redis).
+ */
+export interface RateLimitStore {
+  /**
+   * Add a hit to a key and return its window counts
+   * @param key - Namespaced key
+   * @param windowStart - Start of the current window (ms since epoch)
+   * @param windowMs - Window length in milliseconds
+   */
+  increment(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>;
+
+  /** Clear a key's counters */
+  reset(key: string): Promise<void>;
+
+  /**
+   * Lock a key out
+   * @param until - When the lockout ends (ms since epoch)
+   */
+  lock(key: string, until: number): Promise<void>;
+
+  /**
+   * Get when a key's lockout ends
+   * @returns The end time (ms since epoch), or null if the key isn't locked out
+   */
+  getLock(key: string): Promise<number | null>;
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Limits for the public routes
+ */
+export const RATE_LIMITS = {
+  /** Token exchanges per client IP */
+  exchangeByIp: { prefix: 'exchange:ip', limit: 30, windowMs: MINUTE },
+
+  /** Token exchanges per Bubble app, across all clients */
+  exchangeByApp: { prefix: 'exchange:app', limit: 600, windowMs: MINUTE },
+
+  /** Token exchanges per Bubble user */
+  exchangeBySubject: { prefix: 'exchange:sub', limit: 10, windowMs: MINUTE },
+
+  /** Workflow discovery calls per client IP */
+  discoverByIp: { prefix: 'discover:ip', limit: 10, windowMs: MINUTE },
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * Lockout for clients sending tokens with bad signatures
+ */
+export const SIGNATURE_LOCKOUT: LockoutRule = {
+  prefix: 'lockout:signature',
+  maxFailures: 5,
+  windowMs: 15 * MINUTE,
+  lockoutMs: 15 * MINUTE,
+};
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Process-local rate limit store.
+ * Counters are lost on restart and not shared between serverless instances.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, WindowCounts & { windowMs: number }> = new Map();
+  private locks: Map<string, number> = new Map();
+  private lastPrune = 0;
+
+  async increment(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    this.prune(windowStart);
+
+    const entry = this.counters.get(key);
+    let counts: WindowCounts;
+
+    if (entry && entry.windowStart === windowStart) {
+      counts = { windowStart, current: entry.current + 1, previous: entry.previous };
+    } else if (entry && entry.windowStart === windowStart - windowMs) {
+      counts = { windowStart, current: 1, previous: entry.current };
+    } else {
+      counts = { windowStart, current: 1, previous: 0 };
+    }
+
+    this.counters.set(key, { ...counts, windowMs });
+    return counts;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  async lock(key: string, until: number): Promise<void> {
+    this.locks.set(key, until);
+  }
+
+  async getLock(key: string): Promise<number | null> {
+    const until = this.locks.get(key);
+    if (until === undefined) {
+      return null;
+    }
+    if (until <= Date.now()) {
+      this.locks.delete(key);
+      return null;
+    }
+    return until;
+  }
+
+  /**
+   * Drop counters and locks that no longer affect any decision.
+   * Runs at most once a minute so a flood of keys doesn't make every hit O(n).
+   */
+  private prune(now: number): void {
+    if (now - this.lastPrune < MINUTE) {
+      return;
+    }
+    this.lastPrune = now;
+
+    for (const [key, entry] of this.counters) {
+      if (entry.windowStart + 2 * entry.windowMs <= now) {
+        this.counters.delete(key);
+      }
+    }
+    for (const [key, until] of this.locks) {
+      if (until <= now) {
+        this.locks.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Store Registry
+// ============================================================================
+
+let rateLimitStore: RateLimitStore = new InMemoryRateLimitStore();
+
+/**
+ * Get the active rate limit store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return rateLimitStore;
+}
+
+/**
+ * Replace the active rate limit store (e.g., with a Redis-backed one)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+/**
+ * Count a request against a rule and decide whether it's allowed
+ * @param rule - The limit to apply
+ * @param key - What to count by (IP, app name, subject, ...)
+ */
+export async function checkRateLimit(rule: RateLimitRule, key: string): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+  const counts = await rateLimitStore.increment(`${rule.prefix}:${key}`, windowStart, rule.windowMs);
+
+  // Weight the previous window by how much of it the sliding window still covers
+  const elapsed = now - windowStart;
+  const overlap = 1 - elapsed / rule.windowMs;
+  const estimated = counts.previous * overlap + counts.current;
+
+  if (estimated <= rule.limit) {
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(rule.limit - estimated)),
+      retryAfter: 0,
+    };
+  }
+
+  return {
+    allowed: false,
+    limit: rule.limit,
+    remaining: 0,
+    retryAfter: toSeconds(msUntilBelowLimit(rule, counts, elapsed)),
+  };
+}
+
+/**
+ * Check several rules at once, counting the request against each
+ * @returns The first denied result, or the tightest allowed one
+ */
+export async function checkRateLimits(
+  checks: Array<{ rule: RateLimitRule; key: string | null | undefined }>
+): Promise<RateLimitResult> {
+  const results: RateLimitResult[] = [];
+  for (const { rule, key } of checks) {
+    if (key) {
+      results.push(await checkRateLimit(rule, key));
+    }
+  }
+
+  const denied = results.find((result) => !result.allowed);
+  if (denied) {
+    return denied;
+  }
+
+  return results.reduce<RateLimitResult>(
+    (tightest, result) => (result.remaining < tightest.remaining ? result : tightest),
+    { allowed: true, limit: Infinity, remaining: Infinity, retryAfter: 0 }
+  );
+}
+
+/**
+ * How long until the sliding estimate drops back to the limit
+ */
+function msUntilBelowLimit(rule: RateLimitRule, counts: WindowCounts, elapsed: number): number {
+  const { windowMs } = rule;
+  // Leave room for the retried request itself
+  const target = rule.limit - 1;
+
+  // Still inside the current window: wait for the previous window's weight to fall off
+  if (counts.current < target && counts.previous > 0) {
+    const overlapNeeded = (target - counts.current) / counts.previous;
+    return Math.max(0, windowMs * (1 - overlapNeeded) - elapsed);
+  }
+
+  // Current window alone is at the limit: wait for it to become the previous window
+  const remainingInWindow = windowMs - elapsed;
+  return remainingInWindow + windowMs * Math.max(0, 1 - target / counts.current);
+}
+
+function toSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+// ============================================================================
+// Lockout
+// ============================================================================
+
+/**
+ * Check whether a source is locked out
+ * @returns A denied result while locked out, or null
+ */
+export async function checkLockout(rule: LockoutRule, key: string): Promise<RateLimitResult | null> {
+  const until = await rateLimitStore.getLock(`${rule.prefix}:${key}`);
+  if (until === null) {
+    return null;
+  }
+
+  return {
+    allowed: false,
+    limit: rule.maxFailures,
+    remaining: 0,
+    retryAfter: toSeconds(until - Date.now()),
+  };
+}
+
+/**
+ * Record a failure from a source, locking it out once it has failed too often
+ * @returns A denied result if this failure triggered a lockout, or null
+ */
+export async function recordFailure(rule: LockoutRule, key: string): Promise<RateLimitResult | null> {
+  const result = await checkRateLimit(
+    { prefix: rule.prefix, limit: rule.maxFailures - 1, windowMs: rule.windowMs },
+    key
+  );
+  if (result.allowed) {
+    return null;
+  }
+
+  const lockKey = `${rule.prefix}:${key}`;
+  await rateLimitStore.lock(lockKey, Date.now() + rule.lockoutMs);
+  await rateLimitStore.reset(lockKey);
+
+  return {
+    allowed: false,
+    limit: rule.maxFailures,
+    remaining: 0,
+    retryAfter: toSeconds(rule.lockoutMs),
+  };
+}
+
+// ============================================================================
+// Request Helpers
+// ============================================================================
+
+/**
+ * Key shared by every client whose IP can't be trusted
+ */
+export const SHARED_CLIENT_KEY = 'shared';
+
+/**
+ * Where to find the client IP. X-Forwarded-For entries left of the ones our
+ * own proxies appended are set by the client, so only the configured number
+ * of hops from the right end is trusted.
+ */
+export interface ClientIpConfig {
+  /** Header set by the platform to the client IP, overriding any sent by the client */
+  header?: string;
+
+  /** Proxies in front of the app that append to X-Forwarded-For (0 ignores the header) */
+  trustedProxyHops: number;
+}
+
+let warnedSharedClientKey = false;
+
+/**
+ * Read the client IP config from the environment:
+ * CLIENT_IP_HEADER (default X-Real-IP on Vercel, which overwrites it) and
+ * TRUSTED_PROXY_HOPS (default 0)
+ */
+export function getClientIpConfig(): ClientIpConfig {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+  const config: ClientIpConfig = {
+    header: process.env.CLIENT_IP_HEADER || (process.env.VERCEL ? 'X-Real-IP' : undefined),
+    trustedProxyHops: Number.isInteger(hops) && hops > 0 ? hops : 0,
+  };
+
+  if (!config.header && config.trustedProxyHops === 0 && !warnedSharedClientKey) {
+    warnedSharedClientKey = true;
+    console.warn(
+      'Neither CLIENT_IP_HEADER nor TRUSTED_PROXY_HOPS is set: clients share one per-IP rate limit, ' +
+        'and the token exchange skips its per-IP limit and signature lockout'
+    );
+  }
+  return config;
+}
+
+/**
+ * Get the client IP from the trusted platform header or proxy hops
+ * @returns The IP, or SHARED_CLIENT_KEY when neither is configured or present
+ */
+export function getClientIp(request: Request, config: ClientIpConfig = getClientIpConfig()): string {
+  if (config.header) {
+    const ip = request.headers.get(config.header)?.trim();
+    if (ip) {
+      return ip;
+    }
+  }
+
+  if (config.trustedProxyHops > 0) {
+    const entries = (request.headers.get('X-Forwarded-For') ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    // The entry our outermost proxy appended: the address it received from
+    if (entries.length >= config.trustedProxyHops) {
+      return entries[entries.length - config.trustedProxyHops];
+    }
+  }
+
+  return SHARED_CLIENT_KEY;
+}
+
+/**
+ * Headers describing a rate limit result
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (Number.isFinite(result.limit)) {
+    headers['X-RateLimit-Limit'] = String(result.limit);
+    headers['X-RateLimit-Remaining'] = String(result.remaining);
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+  return headers;
+}
@@ -0,0 +1,138 @@
+/**
+ * Refresh Token Store
+ *
+ * Tracks issued refresh tokens so they can be rotated on every use and
+ * revoked as a family when an already-rotated token is presented again.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RefreshTokenRecord {
+  /** Unique token ID (the `jti` claim) */
+  jti: string;
+
+  /** Family ID shared by every token descended from one exchange */
+  familyId: string;
+
+  /** Local user ID the token was issued to */
+  userId: string;
+
+  /** Expiration timestamp (seconds since epoch) */
+  expiresAt: number;
+
+  /** When the token was rotated (seconds since epoch), if it has been */
+  usedAt?: number;
+}
+
+/**
+ * Storage backend for refresh token state.
+ * Implement this to persist tokens somewhere shared across instances.
+ */
+export interface RefreshTokenStore {
+  /** Record a newly issued refresh token */
+  save(record: RefreshTokenRecord): Promise<void>;
+
+  /** Look up a refresh token by its `jti` */
+  get(jti: string): Promise<RefreshTokenRecord | null>;
+
+  /**
+   * Mark a refresh token as rotated
+   * @returns false if the token was already used (reuse detected)
+   */
+  markUsed(jti: string, usedAt: number): Promise<boolean>;
+
+  /**
+   * Revoke every token in a family
+   * @param familyId - The family ID (the `fam` claim)
+   * @param expiresAt - When every token in the family has expired (seconds since epoch); the entry can be dropped after this
+   */
+  revokeFamily(familyId: string, expiresAt: number): Promise<void>;
+
+  /** Check whether a family has been revoked */
+  isFamilyRevoked(familyId: string): Promise<boolean>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Process-local refresh token store.
+ * State is lost on restart and not shared between serverless instances.
+ */
+export class InMemoryRefreshTokenStore implements RefreshTokenStore {
+  private tokens: Map<string, RefreshTokenRecord> = new Map();
+  private revokedFamilies: Map<string, number> = new Map();
+
+  async save(record: RefreshTokenRecord): Promise<void> {
+    this.prune();
+    this.tokens.set(record.jti, { ...record });
+  }
+
+  async get(jti: string): Promise<RefreshTokenRecord | null> {
+    const record = this.tokens.get(jti);
+    return record ? { ...record } : null;
+  }
+
+  async markUsed(jti: string, usedAt: number): Promise<boolean> {
+    const record = this.tokens.get(jti);
+    if (!record || record.usedAt !== undefined) {
+      return false;
+    }
+    record.usedAt = usedAt;
+    return true;
+  }
+
+  async revokeFamily(familyId: string, expiresAt: number): Promise<void> {
+    this.prune();
+    this.revokedFamilies.set(familyId, expiresAt);
+    for (const [jti, record] of this.tokens) {
+      if (record.familyId === familyId) {
+        this.tokens.delete(jti);
+      }
+    }
+  }
+
+  async isFamilyRevoked(familyId: string): Promise<boolean> {
+    return this.revokedFamilies.has(familyId);
+  }
+
+  /**
+   * Drop expired tokens and revocations so the maps don't grow without bound
+   */
+  private prune(): void {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [jti, record] of this.tokens) {
+      if (record.expiresAt <= now) {
+        this.tokens.delete(jti);
+      }
+    }
+    for (const [familyId, expiresAt] of this.revokedFamilies) {
+      if (expiresAt <= now) {
+        this.revokedFamilies.delete(familyId);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Store Registry
+// ============================================================================
+
+let refreshTokenStore: RefreshTokenStore = new InMemoryRefreshTokenStore();
+
+/**
+ * Get the active refresh token store
+ */
+export function getRefreshTokenStore(): RefreshTokenStore {
+  return refreshTokenStore;
+}
+
+/**
+ * Replace the active refresh token store (e.g., with a database-backed one)
+ */
+export function setRefreshTokenStore(store: RefreshTokenStore): void {
+  refreshTokenStore = store;
+}
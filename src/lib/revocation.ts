@@ -0,0 +1,157 @@
+/**
+ * Access Token Revocation Store
+ *
+ * Records the `jti` of access tokens that were revoked before their `exp`
+ * (e.g., on logout) so verification can reject them.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Storage backend for revoked token IDs.
+ * Implement this to persist revocations somewhere shared across instances.
+ */
+export interface RevocationStore {
+  /**
+   * Revoke a token
+   * @param jti - The token's unique ID
+   * @param expiresAt - The token's expiration (seconds since epoch); the entry can be dropped after this
+   */
+  revoke(jti: string, expiresAt: number): Promise<void>;
+
+  /** Check whether a token has been revoked */
+  isRevoked(jti: string): Promise<boolean>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Process-local revocation store.
+ * State is lost on restart and not shared between serverless instances.
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private revoked: Map<string, number> = new Map();
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    this.prune();
+    this.revoked.set(jti, expiresAt);
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return this.revoked.has(jti);
+  }
+
+  /**
+   * Drop entries for tokens that have expired anyway
+   */
+  private prune(): void {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [jti, expiresAt] of this.revoked) {
+      if (expiresAt <= now) {
+        this.revoked.delete(jti);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+/**
+ * Revocation store backed by a JSON file (`{ [jti]: expiresAt }`).
+ * Suitable for single-host deployments with a persistent disk.
+ */
+export class FileRevocationStore implements RevocationStore {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    // Serialize read-modify-write cycles so concurrent revokes aren't lost
+    const update = async () => {
+      const revoked = await this.load();
+      const now = Math.floor(Date.now() / 1000);
+
+      for (const [id, exp] of revoked) {
+        if (exp <= now) {
+          revoked.delete(id);
+        }
+      }
+      revoked.set(jti, expiresAt);
+
+      await this.persist(revoked);
+    };
+
+    this.writeQueue = this.writeQueue.then(update, update);
+    return this.writeQueue;
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    const revoked = await this.load();
+    return revoked.has(jti);
+  }
+
+  /**
+   * Read the file on every call so revocations from other processes are seen
+   */
+  private async load(): Promise<Map<string, number>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content) as Record<string, number>;
+      return new Map(Object.entries(data));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return new Map();
+    }
+  }
+
+  /**
+   * Write the file atomically (temp file + rename)
+   */
+  private async persist(revoked: Map<string, number>): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(revoked)), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+// ============================================================================
+// Store Registry
+// ============================================================================
+
+let revocationStore: RevocationStore | null = null;
+
+/**
+ * Get the active revocation store.
+ * Uses a file store when REVOCATION_STORE_FILE is set, otherwise in-memory.
+ */
+export function getRevocationStore(): RevocationStore {
+  if (!revocationStore) {
+    const filePath = process.env.REVOCATION_STORE_FILE;
+    revocationStore = filePath
+      ? new FileRevocationStore(filePath)
+      : new InMemoryRevocationStore();
+  }
+  return revocationStore;
+}
+
+/**
+ * Replace the active revocation store (e.g., with a database-backed one)
+ */
+export function setRevocationStore(store: RevocationStore): void {
+  revocationStore = store;
+}
@@ -0,0 +1,421 @@
+/**
+ * HTML Sanitizer
+ *
+ * Allowlist-based sanitizer for HTML from Bubble (rich text fields, workflow
+ * responses) that will be rendered with innerHTML or dangerouslySetInnerHTML.
+ * The input is tokenized the way a browser reads it and written back out,
+ * keeping only allowed tags, attributes and URL schemes:
+ *
+ *   sanitizeHtml('<p onclick="steal()">Hi <a href="javascript:steal()">there</a></p>');
+ *   // '<p>Hi <a>there</a></p>'
+ *
+ * Text is never rewritten, so "configuration=" survives as is. Values that are
+ * rendered as text (React escapes them) don't need this; see the 'text' mode
+ * of sanitizeBubbleData.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HtmlSanitizerOptions {
+  /** Tags kept in the output; other tags are removed but their text is kept */
+  allowedTags: readonly string[];
+
+  /** Attributes kept per tag; '*' applies to every allowed tag */
+  allowedAttributes: Readonly<Record<string, readonly string[]>>;
+
+  /** URL schemes allowed in href/src-like attributes; relative URLs are always allowed */
+  allowedSchemes: readonly string[];
+}
+
+/**
+ * A token read from an HTML string. Comments, doctypes and processing
+ * instructions are skipped.
+ */
+export type HtmlToken =
+  | { type: 'text'; text: string }
+  | { type: 'start'; tag: string; attributes: Array<[name: string, value: string]>; selfClosing: boolean }
+  | { type: 'end'; tag: string };
+
+export const DEFAULT_HTML_SANITIZER_OPTIONS: HtmlSanitizerOptions = {
+  allowedTags: [
+    'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'li', 'ol', 'p',
+    'pre', 's', 'small', 'span', 'strong', 'sub', 'sup', 'table', 'tbody',
+    'td', 'th', 'thead', 'tr', 'u', 'ul',
+  ],
+  allowedAttributes: {
+    '*': ['class', 'title'],
+    a: ['href'],
+    img: ['src', 'alt', 'width', 'height'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+};
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+/** Elements without an end tag */
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta',
+  'source', 'track', 'wbr',
+]);
+
+/** Elements whose content is read as text up to the matching end tag, not as markup */
+const RAW_TEXT_TAGS = new Set([
+  'script', 'style', 'iframe', 'noembed', 'noframes', 'noscript', 'xmp',
+  'textarea', 'title',
+]);
+
+const WHITESPACE = /[\t\n\f\r ]/;
+const TAG_START = /[a-zA-Z]/;
+
+/**
+ * Find the end tag closing a raw text element (case-insensitive)
+ */
+function findRawTextEnd(html: string, tag: string, from: number): number {
+  const lower = html.toLowerCase();
+  let index = lower.indexOf(`</${tag}`, from);
+  while (index !== -1) {
+    const next = html.charAt(index + tag.length + 2);
+    if (next === '' || next === '>' || next === '/' || WHITESPACE.test(next)) {
+      return index;
+    }
+    index = lower.indexOf(`</${tag}`, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Split HTML into text, start tag and end tag tokens, following the HTML
+ * tokenizer's rules for where tags, attributes and comments begin and end.
+ * An unterminated tag at the end of the input is dropped, as browsers do.
+ */
+export function* tokenizeHtml(html: string): Generator<HtmlToken> {
+  let pos = 0;
+  let text = '';
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      text += html.slice(pos);
+      break;
+    }
+    text += html.slice(pos, lt);
+    pos = lt;
+
+    const next = html.charAt(pos + 1);
+
+    // Comment: <!-- ... --> (also <!--> and <!--->)
+    if (html.startsWith('<!--', pos)) {
+      const body = pos + 4;
+      if (html.startsWith('>', body)) {
+        pos = body + 1;
+      } else if (html.startsWith('->', body)) {
+        pos = body + 2;
+      } else {
+        const close = html.indexOf('-->', body);
+        pos = close === -1 ? html.length : close + 3;
+      }
+      continue;
+    }
+
+    // Doctype, CDATA, processing instruction, or </ not followed by a letter: bogus comment up to >
+    const endTag = next === '/';
+    if (next === '!' || next === '?' || (endTag && !TAG_START.test(html.charAt(pos + 2)))) {
+      if (endTag && html.charAt(pos + 2) === '>') {
+        pos += 3;
+      } else if (endTag && html.charAt(pos + 2) === '') {
+        text += '</';
+        pos += 2;
+      } else {
+        const close = html.indexOf('>', pos);
+        pos = close === -1 ? html.length : close + 1;
+      }
+      continue;
+    }
+
+    // A < not starting a tag is text
+    if (!endTag && !TAG_START.test(next)) {
+      text += '<';
+      pos += 1;
+      continue;
+    }
+
+    // Tag name
+    let cursor = pos + (endTag ? 2 : 1);
+    const nameStart = cursor;
+    while (cursor < html.length && !WHITESPACE.test(html[cursor]) && html[cursor] !== '/' && html[cursor] !== '>') {
+      cursor++;
+    }
+    const tag = html.slice(nameStart, cursor).toLowerCase();
+
+    // Attributes
+    const attributes: Array<[string, string]> = [];
+    let selfClosing = false;
+    let closed = false;
+
+    while (cursor < html.length) {
+      const char = html[cursor];
+      if (char === '>') {
+        closed = true;
+        cursor++;
+        break;
+      }
+      if (WHITESPACE.test(char)) {
+        cursor++;
+        continue;
+      }
+      if (char === '/') {
+        selfClosing = html.charAt(cursor + 1) === '>';
+        cursor++;
+        continue;
+      }
+
+      // Attribute name (a leading = is part of the name)
+      const attrStart = cursor;
+      cursor++;
+      while (
+        cursor < html.length &&
+        !WHITESPACE.test(html[cursor]) &&
+        html[cursor] !== '/' &&
+        html[cursor] !== '>' &&
+        html[cursor] !== '='
+      ) {
+        cursor++;
+      }
+      const name = html.slice(attrStart, cursor).toLowerCase();
+
+      while (cursor < html.length && WHITESPACE.test(html[cursor])) {
+        cursor++;
+      }
+
+      let value = '';
+      if (html[cursor] === '=') {
+        cursor++;
+        while (cursor < html.length && WHITESPACE.test(html[cursor])) {
+          cursor++;
+        }
+
+        const quote = html[cursor];
+        if (quote === '"' || quote === "'") {
+          const close = html.indexOf(quote, cursor + 1);
+          if (close === -1) {
+            cursor = html.length;
+            break;
+          }
+          value = html.slice(cursor + 1, close);
+          cursor = close + 1;
+        } else {
+          const valueStart = cursor;
+          while (cursor < html.length && !WHITESPACE.test(html[cursor]) && html[cursor] !== '>') {
+            cursor++;
+          }
+          value = html.slice(valueStart, cursor);
+        }
+      }
+
+      attributes.push([name, decodeEntities(value)]);
+    }
+
+    pos = cursor;
+    if (!closed) {
+      break;
+    }
+
+    if (text) {
+      yield { type: 'text', text };
+      text = '';
+    }
+
+    if (endTag) {
+      yield { type: 'end', tag };
+      continue;
+    }
+
+    yield { type: 'start', tag, attributes, selfClosing };
+
+    // Raw text content up to the end tag (to the end of the input for <plaintext>)
+    if (RAW_TEXT_TAGS.has(tag) || tag === 'plaintext') {
+      const end = tag === 'plaintext' ? -1 : findRawTextEnd(html, tag, pos);
+      const content = html.slice(pos, end === -1 ? html.length : end);
+      if (content) {
+        yield { type: 'text', text: content };
+      }
+      pos = end === -1 ? html.length : end;
+    }
+  }
+
+  if (text) {
+    yield { type: 'text', text };
+  }
+}
+
+// ============================================================================
+// Character References
+// ============================================================================
+
+// Enough to read obfuscated URLs (e.g. "javascript&colon;") and common text;
+// any other reference is kept literally and escaped on output
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  colon: ':', semi: ';', sol: '/', bsol: '\\', lpar: '(', rpar: ')',
+  period: '.', comma: ',', equals: '=', num: '#', excl: '!', percnt: '%',
+  tab: '\t', newline: '\n', lowbar: '_', hyphen: '-',
+  copy: '©', reg: '®', trade: '™', hellip: '…',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', bull: '•', middot: '·', euro: '€',
+};
+
+/**
+ * Decode character references in an attribute value
+ */
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([a-zA-Z][a-zA-Z0-9]*));?/g,
+    (match, decimal?: string, hex?: string, name?: string) => {
+      if (decimal !== undefined || hex !== undefined) {
+        const code = decimal !== undefined ? parseInt(decimal, 10) : parseInt(hex as string, 16);
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+      }
+      return NAMED_ENTITIES[(name as string).toLowerCase()] ?? match;
+    }
+  );
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// ============================================================================
+// Sanitizer
+// ============================================================================
+
+/** Elements removed together with everything inside them */
+const DROP_CONTENT_TAGS = new Set([...RAW_TEXT_TAGS, 'plaintext', 'object', 'template', 'svg', 'math']);
+
+/** Attributes holding a URL */
+const URL_ATTRIBUTES = new Set([
+  'href', 'src', 'action', 'formaction', 'cite', 'poster', 'background',
+  'longdesc', 'xlink:href',
+]);
+
+/**
+ * Check a URL's scheme against the allowlist. Browsers ignore tabs and
+ * newlines anywhere in a URL and control characters and spaces around it.
+ */
+function isAllowedUrl(url: string, allowedSchemes: readonly string[]): boolean {
+  let cleaned = url.replace(/[\t\n\r]/g, '');
+  let start = 0;
+  while (start < cleaned.length && cleaned.charCodeAt(start) <= 0x20) {
+    start++;
+  }
+  cleaned = cleaned.slice(start);
+
+  const scheme = /^([a-zA-Z][a-zA-Z0-9+.-]*):/.exec(cleaned);
+  return !scheme || allowedSchemes.includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Sanitize HTML against an allowlist of tags, attributes and URL schemes
+ *
+ * - Disallowed tags are removed; their text content is kept.
+ * - script, style, iframe, object, template, svg, math and similar elements
+ *   are removed with their content.
+ * - Event handler attributes (on*) are always removed.
+ * - URL attributes with a scheme outside the allowlist are removed.
+ * - Comments are removed and unclosed tags are closed.
+ *
+ * @param html - Untrusted HTML
+ * @param options - Overrides for DEFAULT_HTML_SANITIZER_OPTIONS
+ */
+export function sanitizeHtml(html: string, options: Partial<HtmlSanitizerOptions> = {}): string {
+  const { allowedTags, allowedAttributes, allowedSchemes } = {
+    ...DEFAULT_HTML_SANITIZER_OPTIONS,
+    ...options,
+  };
+  const tags = new Set(allowedTags.map((tag) => tag.toLowerCase()));
+  const globalAttributes = allowedAttributes['*'] ?? [];
+
+  const output: string[] = [];
+  const open: string[] = [];
+  let dropping: { tag: string; depth: number } | null = null;
+
+  for (const token of tokenizeHtml(html)) {
+    if (dropping) {
+      if (token.type === 'start' && token.tag === dropping.tag && !token.selfClosing) {
+        dropping.depth++;
+      } else if (token.type === 'end' && token.tag === dropping.tag && --dropping.depth === 0) {
+        dropping = null;
+      }
+      continue;
+    }
+
+    if (token.type === 'text') {
+      output.push(escapeText(token.text));
+      continue;
+    }
+
+    if (token.type === 'end') {
+      const index = open.lastIndexOf(token.tag);
+      if (index !== -1) {
+        while (open.length > index) {
+          output.push(`</${open.pop()}>`);
+        }
+      }
+      continue;
+    }
+
+    if (DROP_CONTENT_TAGS.has(token.tag)) {
+      // Only foreign elements (svg, math) honour a self-closing slash
+      const foreign = token.tag === 'svg' || token.tag === 'math';
+      if (!(foreign && token.selfClosing)) {
+        dropping = { tag: token.tag, depth: 1 };
+      }
+      continue;
+    }
+
+    if (!tags.has(token.tag)) {
+      continue;
+    }
+
+    const tagAttributes = allowedAttributes[token.tag] ?? [];
+    const seen = new Set<string>();
+    let attributes = '';
+
+    for (const [name, value] of token.attributes) {
+      // The first occurrence of an attribute wins, as in browsers
+      if (seen.has(name)) continue;
+      seen.add(name);
+
+      if (name.startsWith('on')) continue;
+      if (!globalAttributes.includes(name) && !tagAttributes.includes(name)) continue;
+      if (URL_ATTRIBUTES.has(name) && !isAllowedUrl(value, allowedSchemes)) continue;
+
+      attributes += ` ${name}="${escapeAttribute(value)}"`;
+    }
+
+    output.push(`<${token.tag}${attributes}>`);
+    if (!VOID_TAGS.has(token.tag)) {
+      open.push(token.tag);
+    }
+  }
+
+  while (open.length > 0) {
+    output.push(`</${open.pop()}>`);
+  }
+
+  return output.join('');
+}
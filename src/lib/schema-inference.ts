@@ -1,10 +1,28 @@
 /**
  * Schema Inference Utilities
  *
- * Utilities for inferring JSON Schema and TypeScript types from sample data.
- * Used by the workflow discovery tool.
+ * Utilities for inferring JSON Schema and TypeScript types from sample data,
+ * or building them from Bubble's data type metadata (the /meta endpoint).
+ * Used by the workflow and data type discovery tools.
+ *
+ * Besides standard formats (uuid, email, uri, date-time), Bubble's own shapes
+ * get named formats that the generators turn into the branded types from
+ * `@/shared/bubble` (see ./formats there):
+ *
+ *   bubble-id    "1696012345678x123456789012345678"   -> BubbleId
+ *   bubble-file  "//s3.amazonaws.com/appforest_uf/..." -> BubbleFileUrl
+ *   bubble-date  1696012345678 (epoch milliseconds)   -> BubbleDate
+ *   bubble-geo   { address, lat, lng }                -> BubbleGeoAddress
+ *
+ * Nested objects become named definitions ($defs) so generated code declares
+ * one interface and schema per shape instead of inlining them:
+ *
+ *   export interface GetOrderResponse { customer: GetOrderResponseCustomer; ... }
+ *   export interface GetOrderResponseCustomer { name: string; ... }
  */
 
+import { BUBBLE_FILE_PATTERN, BUBBLE_ID_PATTERN, isBubbleGeoAddress } from '@/shared/bubble';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -17,8 +35,43 @@ export interface JsonSchema {
   format?: string;
   description?: string;
   additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  /** Named sub-schemas, referenced as `#/$defs/<name>` (see extractDefinitions) */
+  $defs?: Record<string, JsonSchema>;
+  $ref?: string;
 }
 
+/**
+ * Options for enum and range detection
+ *
+ * Generated schemas validate real responses, so inferred constraints are
+ * conservative: enums need many observations, and observed ranges are only
+ * described unless `enforceRanges` is set.
+ */
+export interface InferenceOptions {
+  /** Most distinct values a string or number field may have to become an enum (0 disables enums) */
+  maxEnumValues?: number;
+
+  /** Fewest times a field must be seen before an enum or range is inferred for it */
+  minObservations?: number;
+
+  /** Fewest times every value of a field must be seen for it to become an enum */
+  minValueCount?: number;
+
+  /** Emit observed ranges as minimum/maximum (and .min()/.max()) instead of a description */
+  enforceRanges?: boolean;
+}
+
+export const DEFAULT_INFERENCE_OPTIONS: Required<InferenceOptions> = {
+  maxEnumValues: 5,
+  minObservations: 10,
+  minValueCount: 2,
+  enforceRanges: false,
+};
+
 // ============================================================================
 // Pattern Detection
 // ============================================================================
@@ -30,7 +83,13 @@ const URL_REGEX = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
 const ISO_DATE_REGEX =
   /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/;
 
+// Integers in this range (2000-2100) are taken to be dates in epoch milliseconds
+const EPOCH_MS_MIN = Date.UTC(2000, 0, 1);
+const EPOCH_MS_MAX = Date.UTC(2100, 0, 1);
+
 function detectStringFormat(value: string): string | undefined {
+  if (BUBBLE_ID_PATTERN.test(value)) return 'bubble-id';
+  if (BUBBLE_FILE_PATTERN.test(value)) return 'bubble-file';
   if (UUID_REGEX.test(value)) return 'uuid';
   if (EMAIL_REGEX.test(value)) return 'email';
   if (URL_REGEX.test(value)) return 'uri';
@@ -38,16 +97,154 @@ function detectStringFormat(value: string): string | undefined {
   return undefined;
 }
 
+function detectNumberFormat(value: number): string | undefined {
+  if (Number.isInteger(value) && value >= EPOCH_MS_MIN && value < EPOCH_MS_MAX) return 'bubble-date';
+  return undefined;
+}
+
+// ============================================================================
+// Observed Values
+// ============================================================================
+
+/**
+ * Values seen for a string or number field while samples are merged,
+ * used to decide on enums and ranges once all samples are in
+ */
+interface ObservedValues {
+  /** Times each value was seen, or null once there are too many to be an enum */
+  counts: Map<string | number, number> | null;
+
+  /** Times the field was seen */
+  total: number;
+}
+
+// Distinct values tracked per field; a field with more can't be an enum
+const MAX_TRACKED_VALUES = 50;
+
+// Kept beside the schemas so they don't show up in the inferred JSON Schema
+const observedValues = new WeakMap<JsonSchema, ObservedValues>();
+
+function observe<T extends JsonSchema>(schema: T, value: string | number): T {
+  observedValues.set(schema, { counts: new Map([[value, 1]]), total: 1 });
+  return schema;
+}
+
+function copyObserved<T extends JsonSchema>(from: JsonSchema, to: T): T {
+  const observed = observedValues.get(from);
+  if (observed) {
+    observedValues.set(to, observed);
+  }
+  return to;
+}
+
+/**
+ * Combine the values seen by several variants (null if any variant has none)
+ */
+function mergeObserved(variants: JsonSchema[]): ObservedValues | null {
+  const all = variants.map((variant) => observedValues.get(variant));
+  if (all.some((observed) => !observed)) {
+    return null;
+  }
+
+  let counts: Map<string | number, number> | null = new Map();
+  let total = 0;
+  for (const observed of all as ObservedValues[]) {
+    total += observed.total;
+    if (!counts || !observed.counts) {
+      counts = null;
+      continue;
+    }
+    for (const [value, count] of observed.counts) {
+      counts.set(value, (counts.get(value) ?? 0) + count);
+    }
+    if (counts.size > MAX_TRACKED_VALUES) {
+      counts = null;
+    }
+  }
+
+  return { counts, total };
+}
+
+/**
+ * Turn observed values into enums and ranges, and drop them from the schema tree.
+ * A field becomes an enum when it has 2 to `maxEnumValues` distinct values and
+ * each was seen `minValueCount` times, so a handful of unique ids isn't mistaken
+ * for one, and a value that never changed across samples isn't pinned to a literal. Ranges become a description unless `enforceRanges` is set.
+ */
+function applyObservedValues(schema: JsonSchema, options: Required<InferenceOptions>): JsonSchema {
+  const result: JsonSchema = { ...schema };
+
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [
+        key,
+        applyObservedValues(property, options),
+      ])
+    );
+  }
+  if (schema.items) {
+    result.items = applyObservedValues(schema.items, options);
+  }
+  if (schema.anyOf) {
+    result.anyOf = schema.anyOf.map((variant) => applyObservedValues(variant, options));
+  }
+
+  const observed = observedValues.get(schema);
+  if (!observed) {
+    return result;
+  }
+
+  const enough = observed.total >= options.minObservations;
+  // A range says nothing useful about formatted values such as dates
+  if (!enough || schema.format) {
+    delete result.minimum;
+    delete result.maximum;
+  }
+
+  const counts = observed.counts;
+  if (
+    enough &&
+    counts &&
+    !schema.format &&
+    counts.size >= 2 &&
+    counts.size <= options.maxEnumValues &&
+    [...counts.values()].every((count) => count >= options.minValueCount)
+  ) {
+    const values = [...counts.keys()];
+    result.enum =
+      typeof values[0] === 'string' ? values : values.sort((a, b) => (a as number) - (b as number));
+    // The values say more than the range
+    delete result.minimum;
+    delete result.maximum;
+  }
+
+  if (!options.enforceRanges && result.minimum !== undefined && result.maximum !== undefined) {
+    const range = `Observed range: ${result.minimum} to ${result.maximum}`;
+    result.description = result.description ? `${result.description}. ${range}` : range;
+    delete result.minimum;
+    delete result.maximum;
+  }
+
+  return result;
+}
+
 // ============================================================================
 // JSON Schema Inference
 // ============================================================================
 
+function resolveOptions(options: InferenceOptions): Required<InferenceOptions> {
+  return {
+    maxEnumValues: options.maxEnumValues ?? DEFAULT_INFERENCE_OPTIONS.maxEnumValues,
+    minObservations: options.minObservations ?? DEFAULT_INFERENCE_OPTIONS.minObservations,
+    minValueCount: options.minValueCount ?? DEFAULT_INFERENCE_OPTIONS.minValueCount,
+    enforceRanges: options.enforceRanges ?? DEFAULT_INFERENCE_OPTIONS.enforceRanges,
+  };
+}
+
 /**
- * Infers a JSON Schema from sample data.
- * Handles: objects, arrays, strings, numbers, booleans, null
- * Detects patterns: UUIDs, emails, URLs, ISO dates
+ * Infer a schema for one value, recording observed values for later
  */
-export function inferJsonSchema(data: unknown): JsonSchema {
+function inferWithObservations(data: unknown): JsonSchema {
   if (data === null) {
     return { type: 'null' };
   }
@@ -57,14 +254,7 @@ export function inferJsonSchema(data: unknown): JsonSchema {
   }
 
   if (Array.isArray(data)) {
-    if (data.length === 0) {
-      return { type: 'array', items: {} };
-    }
-
-    // Infer item type from first element
-    // For more accuracy, could merge schemas from all elements
-    const itemSchema = inferJsonSchema(data[0]);
-    return { type: 'array', items: itemSchema };
+    return { type: 'array', items: mergeJsonSchemas(data.map(inferWithObservations)) };
   }
 
   if (typeof data === 'object') {
@@ -72,15 +262,17 @@ export function inferJsonSchema(data: unknown): JsonSchema {
     const required: string[] = [];
 
     for (const [key, value] of Object.entries(data)) {
-      properties[key] = inferJsonSchema(value);
-      // Mark all fields as required (can't tell optionality from single sample)
-      if (value !== null && value !== undefined) {
-        required.push(key);
+      if (value === undefined) {
+        continue;
       }
+      // Present keys are required; a null value makes the field nullable, not optional
+      properties[key] = inferWithObservations(value);
+      required.push(key);
     }
 
     return {
       type: 'object',
+      ...(isBubbleGeoAddress(data) && { format: 'bubble-geo' }),
       properties,
       required: required.length > 0 ? required : undefined,
     };
@@ -88,11 +280,16 @@ export function inferJsonSchema(data: unknown): JsonSchema {
 
   if (typeof data === 'string') {
     const format = detectStringFormat(data);
-    return format ? { type: 'string', format } : { type: 'string' };
+    return observe(format ? { type: 'string', format } : { type: 'string' }, data);
   }
 
   if (typeof data === 'number') {
-    return { type: 'number' };
+    const type = Number.isInteger(data) ? 'integer' : 'number';
+    const format = detectNumberFormat(data);
+    return observe(
+      format ? { type, format, minimum: data, maximum: data } : { type, minimum: data, maximum: data },
+      data
+    );
   }
 
   if (typeof data === 'boolean') {
@@ -102,6 +299,321 @@ export function inferJsonSchema(data: unknown): JsonSchema {
   return {};
 }
 
+/**
+ * Infers a JSON Schema from sample data.
+ * Handles: objects, arrays, strings, numbers (integer or not), booleans, null
+ * Detects patterns: UUIDs, emails, URLs, ISO dates
+ * Array items are merged from every element (see mergeJsonSchemas), which is
+ * also where enums and ranges come from (see InferenceOptions).
+ */
+export function inferJsonSchema(data: unknown, options: InferenceOptions = {}): JsonSchema {
+  return applyObservedValues(inferWithObservations(data), resolveOptions(options));
+}
+
+/**
+ * Infers one JSON Schema from several samples of the same data
+ * (e.g. responses from repeated discovery runs).
+ */
+export function inferJsonSchemaFromSamples(
+  samples: unknown[],
+  options: InferenceOptions = {}
+): JsonSchema {
+  return applyObservedValues(mergeJsonSchemas(samples.map(inferWithObservations)), resolveOptions(options));
+}
+
+// ============================================================================
+// Schema Merging
+// ============================================================================
+
+/**
+ * Split a schema into single-type variants (expanding anyOf and type lists)
+ */
+function toVariants(schema: JsonSchema): JsonSchema[] {
+  if (schema.anyOf) {
+    return schema.anyOf.flatMap(toVariants);
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => {
+      const { properties, required, items, format, enum: values, minimum, maximum, ...rest } = schema;
+      const numeric = type === 'number' || type === 'integer';
+      return copyObserved(schema, {
+        ...rest,
+        type,
+        ...(type === 'object' && { properties, required }),
+        ...(type === 'array' && { items }),
+        ...(type !== 'null' && format && { format }),
+        ...((type === 'string' || numeric) && values && { enum: values }),
+        ...(numeric && minimum !== undefined && { minimum }),
+        ...(numeric && maximum !== undefined && { maximum }),
+      });
+    });
+  }
+
+  // An empty schema carries no information
+  return schema.type || schema.$ref ? [schema] : [];
+}
+
+/**
+ * Merge variants that share a type
+ */
+function mergeSameType(type: string, variants: JsonSchema[]): JsonSchema {
+  const description = variants.find((variant) => variant.description)?.description;
+  const base: JsonSchema = description ? { type, description } : { type };
+
+  // Keep a format only if every sample has it
+  const format = variants[0].format;
+  if (format && variants.every((variant) => variant.format === format)) {
+    base.format = format;
+  }
+
+  if (type === 'object') {
+    const keys = [...new Set(variants.flatMap((variant) => Object.keys(variant.properties ?? {})))];
+    const properties: Record<string, JsonSchema> = {};
+    for (const key of keys) {
+      properties[key] = mergeJsonSchemas(
+        variants.flatMap((variant) => (variant.properties?.[key] ? [variant.properties[key]] : []))
+      );
+    }
+
+    // Required only if every sample has the key
+    const required = keys.filter((key) =>
+      variants.every((variant) => variant.required?.includes(key) ?? false)
+    );
+
+    return { ...base, properties, required: required.length > 0 ? required : undefined };
+  }
+
+  if (type === 'array') {
+    return {
+      ...base,
+      items: mergeJsonSchemas(variants.flatMap((variant) => (variant.items ? [variant.items] : []))),
+    };
+  }
+
+  if (type !== 'string' && type !== 'number' && type !== 'integer') {
+    return base;
+  }
+
+  const merged: JsonSchema = { ...base };
+
+  // Keep an enum only if every sample has one
+  if (variants.every((variant) => variant.enum)) {
+    merged.enum = [...new Set(variants.flatMap((variant) => variant.enum ?? []))];
+  }
+
+  // Keep a range only if every sample has one
+  if (variants.every((variant) => variant.minimum !== undefined)) {
+    merged.minimum = Math.min(...variants.map((variant) => variant.minimum as number));
+  }
+  if (variants.every((variant) => variant.maximum !== undefined)) {
+    merged.maximum = Math.max(...variants.map((variant) => variant.maximum as number));
+  }
+
+  const observed = mergeObserved(variants);
+  if (observed) {
+    observedValues.set(merged, observed);
+  }
+  return merged;
+}
+
+/**
+ * Merges schemas inferred from several samples into one.
+ * Keys missing from some objects become optional, null alongside one other
+ * type becomes nullable (e.g. type: ['string', 'null']), and different types
+ * become a union (anyOf). Integers merged with other numbers become numbers.
+ */
+export function mergeJsonSchemas(schemas: JsonSchema[]): JsonSchema {
+  const byType = new Map<string, JsonSchema[]>();
+  for (const variant of schemas.flatMap(toVariants)) {
+    const type = variant.type as string;
+    byType.set(type, [...(byType.get(type) ?? []), variant]);
+  }
+
+  if (byType.size === 0) {
+    return {};
+  }
+
+  const integers = byType.get('integer');
+  const numbers = byType.get('number');
+  if (integers && numbers) {
+    byType.set('number', [...numbers, ...integers]);
+    byType.delete('integer');
+  }
+
+  const nullable = byType.delete('null');
+  const merged = [...byType].map(([type, variants]) => mergeSameType(type, variants));
+
+  if (merged.length === 0) {
+    return { type: 'null' };
+  }
+
+  if (merged.length === 1) {
+    return nullable
+      ? copyObserved(merged[0], { ...merged[0], type: [merged[0].type as string, 'null'] })
+      : merged[0];
+  }
+
+  return { anyOf: nullable ? [...merged, { type: 'null' }] : merged };
+}
+
+// ============================================================================
+// Bubble Formats
+// ============================================================================
+
+/**
+ * Branded type and Zod schema for each Bubble format, exported by `@/shared/bubble`
+ */
+const BUBBLE_FORMATS: Record<string, { type: string; schema: string }> = {
+  'bubble-id': { type: 'BubbleId', schema: 'BubbleIdSchema' },
+  'bubble-file': { type: 'BubbleFileUrl', schema: 'BubbleFileUrlSchema' },
+  'bubble-date': { type: 'BubbleDate', schema: 'BubbleDateSchema' },
+  'bubble-geo': { type: 'BubbleGeoAddress', schema: 'BubbleGeoAddressSchema' },
+};
+
+function collectFormats(schema: JsonSchema, formats: Set<string>): void {
+  if (schema.format && BUBBLE_FORMATS[schema.format]) {
+    formats.add(schema.format);
+    // A Bubble format replaces the object's own properties
+    return;
+  }
+  Object.values(schema.properties ?? {}).forEach((property) => collectFormats(property, formats));
+  if (schema.items) collectFormats(schema.items, formats);
+  schema.anyOf?.forEach((variant) => collectFormats(variant, formats));
+  Object.values(schema.$defs ?? {}).forEach((definition) => collectFormats(definition, formats));
+}
+
+/**
+ * Generates the import line for the Bubble format types and schemas that
+ * generated code for these schemas uses (empty if it uses none)
+ */
+export function generateFormatImports(...schemas: JsonSchema[]): string {
+  const formats = new Set<string>();
+  schemas.forEach((schema) => collectFormats(schema, formats));
+  if (formats.size === 0) {
+    return '';
+  }
+
+  const names = Object.entries(BUBBLE_FORMATS)
+    .filter(([format]) => formats.has(format))
+    .flatMap(([, { type, schema }]) => [schema, `type ${type}`]);
+  return `import { ${names.join(', ')} } from '@/shared/bubble';`;
+}
+
+// ============================================================================
+// Definitions
+// ============================================================================
+
+const DEFS_PREFIX = '#/$defs/';
+
+/**
+ * Name of the definition a $ref points to
+ */
+function refName(ref: string): string {
+  return ref.startsWith(DEFS_PREFIX) ? ref.slice(DEFS_PREFIX.length) : ref;
+}
+
+/**
+ * Whether a schema is an object with its own properties, which generated
+ * code declares as an interface (Bubble formats have a type of their own)
+ */
+function isNamedObject(schema: JsonSchema): boolean {
+  return (
+    schema.type === 'object' &&
+    Object.keys(schema.properties ?? {}).length > 0 &&
+    !(schema.format && BUBBLE_FORMATS[schema.format])
+  );
+}
+
+/**
+ * JSON for a schema that is the same for the same shape, whatever the key order
+ */
+function shapeKey(schema: JsonSchema): string {
+  return JSON.stringify(schema, (key, value) => {
+    if (Array.isArray(value)) {
+      return key === 'required' ? [...value].sort() : value;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map((name) => [name, value[name]]));
+    }
+    return value;
+  });
+}
+
+/**
+ * Moves nested objects into `$defs` and replaces them with `$ref`s.
+ * Definitions are named from the property path below rootName (e.g.
+ * "GetOrderResponse" + "customer" + "address" -> "GetOrderResponseCustomerAddress",
+ * array items get an "Item" suffix), and identical shapes share one definition.
+ * Definitions come after the definitions they reference.
+ *
+ * The generators call this themselves; a schema that already has `$defs` is
+ * returned unchanged.
+ */
+export function extractDefinitions(schema: JsonSchema, rootName: string): JsonSchema {
+  if (schema.$defs) {
+    return schema;
+  }
+
+  const defs: Record<string, JsonSchema> = {};
+  const namesByShape = new Map<string, string>();
+
+  // Returns the same schema when nothing in it was moved
+  const extract = (node: JsonSchema, name: string, hoist: boolean): JsonSchema => {
+    if (node.$ref || (node.format && BUBBLE_FORMATS[node.format])) {
+      return node;
+    }
+
+    const variants = unionVariants(node);
+    if (variants) {
+      const extracted = variants.map((variant) => extract(variant, name, hoist));
+      if (extracted.every((variant, index) => variant === variants[index])) {
+        return node;
+      }
+      return node.description
+        ? { anyOf: extracted, description: node.description }
+        : { anyOf: extracted };
+    }
+
+    if (node.type === 'array' && node.items) {
+      const items = extract(node.items, `${name}Item`, true);
+      return items === node.items ? node : { ...node, items };
+    }
+
+    if (!isNamedObject(node)) {
+      return node;
+    }
+
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, property] of Object.entries(node.properties ?? {})) {
+      properties[key] = extract(property, `${name}${toNamePart(key)}`, true);
+    }
+    const { description, ...rest } = node;
+    const definition: JsonSchema = { ...rest, properties };
+    if (!hoist) {
+      return description ? { ...definition, description } : definition;
+    }
+
+    // Reuse the definition of an identical shape, else take a free name
+    const key = shapeKey(definition);
+    let defName = namesByShape.get(key);
+    if (!defName) {
+      defName = name;
+      for (let suffix = 2; defName in defs || defName === rootName; suffix++) {
+        defName = `${name}${suffix}`;
+      }
+      defs[defName] = definition;
+      namesByShape.set(key, defName);
+    }
+
+    const ref: JsonSchema = { $ref: `${DEFS_PREFIX}${defName}` };
+    return description ? { ...ref, description } : ref;
+  };
+
+  const root = extract(schema, rootName, false);
+  return Object.keys(defs).length > 0 ? { ...root, $defs: defs } : root;
+}
+
 // ============================================================================
 // TypeScript Generation
 // ============================================================================
@@ -140,18 +652,42 @@ export function jsonSchemaToTypescript(
   return lines.join('\n');
 }
 
+/**
+ * The variants of a union (anyOf or a list of types), or null for a single type
+ */
+function unionVariants(schema: JsonSchema): JsonSchema[] | null {
+  return schema.anyOf || Array.isArray(schema.type) ? toVariants(schema) : null;
+}
+
 function schemaToTypeString(schema: JsonSchema, indent: number): string {
   const indentStr = '  '.repeat(indent);
 
+  const variants = unionVariants(schema);
+  if (variants) {
+    return variants.map((variant) => schemaToTypeString(variant, indent)).join(' | ');
+  }
+
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+
   if (schema.type === 'null') {
     return 'null';
   }
 
+  if (schema.format && BUBBLE_FORMATS[schema.format]) {
+    return BUBBLE_FORMATS[schema.format].type;
+  }
+
+  if (schema.enum && (schema.type === 'string' || schema.type === 'number' || schema.type === 'integer')) {
+    return schema.enum.map(toLiteral).join(' | ');
+  }
+
   if (schema.type === 'string') {
     return 'string';
   }
 
-  if (schema.type === 'number') {
+  if (schema.type === 'number' || schema.type === 'integer') {
     return 'number';
   }
 
@@ -162,8 +698,8 @@ function schemaToTypeString(schema: JsonSchema, indent: number): string {
   if (schema.type === 'array') {
     if (schema.items) {
       const itemType = schemaToTypeString(schema.items, indent);
-      // Check if item type is complex (object)
-      if (schema.items.type === 'object' && schema.items.properties) {
+      // Check if item type is complex (object or union)
+      if ((schema.items.type === 'object' && schema.items.properties) || unionVariants(schema.items)) {
         return `Array<${itemType}>`;
       }
       return `${itemType}[]`;
@@ -184,7 +720,10 @@ function schemaToTypeString(schema: JsonSchema, indent: number): string {
       const safeKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)
         ? key
         : `'${key}'`;
-      props.push(`${indentStr}  ${safeKey}${optionalMark}: ${typeStr}`);
+      const comment = propSchema.description
+        ? `${indentStr}  /** ${propSchema.description} */\n`
+        : '';
+      props.push(`${comment}${indentStr}  ${safeKey}${optionalMark}: ${typeStr}`);
     }
 
     return `{\n${props.join(';\n')};\n${indentStr}}`;
@@ -194,17 +733,31 @@ function schemaToTypeString(schema: JsonSchema, indent: number): string {
 }
 
 /**
- * Generates a complete TypeScript interface definition
+ * Declare a named type: an interface for objects, else a type alias
+ */
+function declareType(name: string, schema: JsonSchema): string {
+  return isNamedObject(schema)
+    ? `export interface ${name} ${schemaToTypeString(schema, 0)}`
+    : `export type ${name} = ${schemaToTypeString(schema, 0)};`;
+}
+
+/**
+ * Generates a complete TypeScript interface definition, followed by an
+ * interface for each nested object (see extractDefinitions)
  */
 export function generateTypescriptInterface(
   schema: JsonSchema,
   interfaceName: string
 ): string {
+  const { $defs, ...root } = extractDefinitions(schema, interfaceName);
   const lines: string[] = [];
 
-  lines.push(`export interface ${interfaceName} ${schemaToTypeString(schema, 0)}`);
+  lines.push(declareType(interfaceName, root));
+  for (const [name, definition] of Object.entries($defs ?? {})) {
+    lines.push(declareType(name, definition));
+  }
 
-  return lines.join('\n');
+  return lines.join('\n\n');
 }
 
 // ============================================================================
@@ -213,17 +766,24 @@ export function generateTypescriptInterface(
 
 /**
  * Generates Zod schema code from JSON Schema for runtime validation.
+ * Nested objects get their own schemas, named like the TypeScript interfaces
+ * plus "Schema" and declared before the schemas that use them.
  */
 export function jsonSchemaToZod(
   schema: JsonSchema,
   schemaName: string,
   indent: number = 0
 ): string {
-  const indentStr = '  '.repeat(indent);
-
   if (indent === 0) {
-    const zodCode = schemaToZodString(schema, 0);
-    return `export const ${schemaName} = ${zodCode};`;
+    const { $defs, ...root } = extractDefinitions(schema, schemaName.replace(/Schema$/, ''));
+    const lines: string[] = [];
+
+    for (const [name, definition] of Object.entries($defs ?? {})) {
+      lines.push(`export const ${name}Schema = ${schemaToZodString(definition, 0)};`);
+    }
+    lines.push(`export const ${schemaName} = ${schemaToZodString(root, 0)};`);
+
+    return lines.join('\n\n');
   }
 
   return schemaToZodString(schema, indent);
@@ -233,10 +793,41 @@ function schemaToZodString(schema: JsonSchema, indent: number): string {
   const indentStr = '  '.repeat(indent);
   const nextIndent = '  '.repeat(indent + 1);
 
+  const variants = unionVariants(schema);
+  if (variants) {
+    const nonNull = variants.filter((variant) => variant.type !== 'null');
+    if (nonNull.length === 0) {
+      return 'z.null()';
+    }
+    const zodStr =
+      nonNull.length === 1
+        ? schemaToZodString(nonNull[0], indent)
+        : `z.union([${nonNull.map((variant) => schemaToZodString(variant, indent)).join(', ')}])`;
+    return nonNull.length < variants.length ? `${zodStr}.nullable()` : zodStr;
+  }
+
+  if (schema.$ref) {
+    return `${refName(schema.$ref)}Schema`;
+  }
+
   if (schema.type === 'null') {
     return 'z.null()';
   }
 
+  if (schema.format && BUBBLE_FORMATS[schema.format]) {
+    return BUBBLE_FORMATS[schema.format].schema;
+  }
+
+  if (schema.enum && (schema.type === 'string' || schema.type === 'number' || schema.type === 'integer')) {
+    const literals = schema.enum.map((value) => `z.literal(${toLiteral(value)})`);
+    if (literals.length === 1) {
+      return literals[0];
+    }
+    return schema.type === 'string'
+      ? `z.enum([${schema.enum.map(toLiteral).join(', ')}])`
+      : `z.union([${literals.join(', ')}])`;
+  }
+
   if (schema.type === 'string') {
     let zodStr = 'z.string()';
     if (schema.format === 'email') {
@@ -249,8 +840,15 @@ function schemaToZodString(schema: JsonSchema, indent: number): string {
     return zodStr;
   }
 
-  if (schema.type === 'number') {
-    return 'z.number()';
+  if (schema.type === 'number' || schema.type === 'integer') {
+    let zodStr = schema.type === 'integer' ? 'z.int()' : 'z.number()';
+    if (schema.minimum !== undefined) {
+      zodStr += `.min(${schema.minimum})`;
+    }
+    if (schema.maximum !== undefined) {
+      zodStr += `.max(${schema.maximum})`;
+    }
+    return zodStr;
   }
 
   if (schema.type === 'boolean') {
@@ -272,7 +870,10 @@ function schemaToZodString(schema: JsonSchema, indent: number): string {
 
     const props: string[] = [];
     for (const [key, propSchema] of Object.entries(schema.properties)) {
-      const zodStr = schemaToZodString(propSchema, indent + 1);
+      let zodStr = schemaToZodString(propSchema, indent + 1);
+      if (propSchema.description) {
+        zodStr += `.describe(${toLiteral(propSchema.description)})`;
+      }
       const isRequired = schema.required?.includes(key) ?? false;
       const finalZod = isRequired ? zodStr : `${zodStr}.optional()`;
       const safeKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)
@@ -287,10 +888,193 @@ function schemaToZodString(schema: JsonSchema, indent: number): string {
   return 'z.unknown()';
 }
 
+// ============================================================================
+// Bubble Data Types
+// ============================================================================
+
+/**
+ * A field of a data type, as listed by Bubble's /meta endpoint
+ */
+export interface BubbleFieldMeta {
+  /** Field key in Data API responses (e.g., "name_text") */
+  id: string;
+
+  /** Name shown in the Bubble editor */
+  display?: string;
+
+  /** Bubble field type (e.g., "text", "list.custom.product") */
+  type: string;
+}
+
+/**
+ * A data type, as listed by Bubble's /meta endpoint
+ */
+export interface BubbleTypeMeta {
+  /** Name shown in the Bubble editor */
+  display?: string;
+
+  /** Fields as a list, or keyed by field id */
+  fields?: BubbleFieldMeta[] | Record<string, Omit<BubbleFieldMeta, 'id'>>;
+}
+
+/**
+ * The parts of Bubble's /meta response used for type discovery
+ */
+export interface BubbleMeta {
+  /** Data types exposed to the Data API */
+  get?: string[];
+
+  /** Data type metadata, keyed by type name */
+  types?: Record<string, BubbleTypeMeta>;
+}
+
+/**
+ * Fields Bubble adds to every thing; custom fields are left out of
+ * Data API responses when empty, so only these are required
+ */
+const BUBBLE_BUILT_IN_FIELDS: Record<string, JsonSchema> = {
+  _id: { type: 'string', format: 'bubble-id', description: 'Unique id' },
+  'Created Date': { type: 'string', format: 'date-time' },
+  'Modified Date': { type: 'string', format: 'date-time' },
+  'Created By': { type: 'string', format: 'bubble-id', description: 'Unique id of the User who created it' },
+};
+
+const BUBBLE_REQUIRED_FIELDS = ['_id', 'Created Date', 'Modified Date'];
+
+/**
+ * Maps a Bubble field type to JSON Schema.
+ * Handles: text, number, date, yes/no, file, image, geographic address,
+ * option sets, references to other types ("custom.x", "user") and lists of any of these.
+ * References are unique ids (format bubble-id) and option values strings, as the Data API returns them.
+ */
+export function bubbleFieldTypeToJsonSchema(fieldType: string): JsonSchema {
+  if (fieldType.startsWith('list.')) {
+    return { type: 'array', items: bubbleFieldTypeToJsonSchema(fieldType.slice('list.'.length)) };
+  }
+
+  if (fieldType.startsWith('custom.')) {
+    return {
+      type: 'string',
+      format: 'bubble-id',
+      description: `Unique id of a ${dataTypeToInterfaceName(fieldType.slice('custom.'.length))}`,
+    };
+  }
+
+  if (fieldType.startsWith('option.')) {
+    return {
+      type: 'string',
+      description: `Option from the ${dataTypeToInterfaceName(fieldType.slice('option.'.length))} option set`,
+    };
+  }
+
+  switch (fieldType) {
+    case 'text':
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'boolean':
+    case 'yes_no':
+      return { type: 'boolean' };
+    case 'file':
+    case 'image':
+      return {
+        type: 'string',
+        format: 'bubble-file',
+        description: `${fieldType === 'image' ? 'Image' : 'File'} URL`,
+      };
+    case 'geographic_address':
+      return {
+        type: 'object',
+        format: 'bubble-geo',
+        properties: {
+          address: { type: 'string' },
+          lat: { type: 'number' },
+          lng: { type: 'number' },
+        },
+        required: ['address', 'lat', 'lng'],
+      };
+    case 'user':
+      return { type: 'string', format: 'bubble-id', description: 'Unique id of a User' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Builds the JSON Schema of a thing, as returned by the Data API, from its type metadata
+ */
+export function bubbleTypeToJsonSchema(typeMeta: BubbleTypeMeta): JsonSchema {
+  const fields = Array.isArray(typeMeta.fields)
+    ? typeMeta.fields
+    : Object.entries(typeMeta.fields ?? {}).map(([id, field]) => ({ ...field, id }));
+
+  const properties: Record<string, JsonSchema> = { ...BUBBLE_BUILT_IN_FIELDS };
+  for (const field of fields) {
+    const schema = bubbleFieldTypeToJsonSchema(field.type);
+    const note = schema.description ?? schema.items?.description;
+    const description = [field.display, note].filter(Boolean).join(' - ');
+    properties[field.id] = description ? { ...schema, description } : schema;
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: [...BUBBLE_REQUIRED_FIELDS],
+  };
+}
+
+/**
+ * Builds a JSON Schema per data type from Bubble's /meta response.
+ * Types listed in `get` (exposed to the Data API) come first.
+ *
+ * @param meta - The /meta response
+ * @param only - Type names to include (all types if omitted)
+ */
+export function bubbleMetaToJsonSchemas(
+  meta: BubbleMeta,
+  only?: string[]
+): Record<string, JsonSchema> {
+  const types = meta.types ?? {};
+  const names = [...new Set([...(meta.get ?? []), ...Object.keys(types)])].filter(
+    (name) => types[name] && (!only || only.includes(name))
+  );
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const name of names) {
+    schemas[name] = bubbleTypeToJsonSchema(types[name]);
+  }
+  return schemas;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
+/**
+ * Render a string or number as a TypeScript literal
+ * e.g., "draft" -> 'draft', 3 -> 3
+ */
+function toLiteral(value: string | number): string {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Turn a property name into part of a type name, keeping its inner capitals
+ * e.g., "shipping_address" -> "ShippingAddress", "Created By" -> "CreatedBy"
+ */
+function toNamePart(key: string): string {
+  const name = key
+    .split(/[^a-zA-Z0-9]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return name || 'Field';
+}
+
 /**
  * Convert snake_case or kebab-case to PascalCase
  */
@@ -324,3 +1108,19 @@ export function workflowToInterfaceName(workflowName: string): string {
 export function workflowToSchemaName(workflowName: string): string {
   return `${toPascalCase(workflowName)}ResponseSchema`;
 }
+
+/**
+ * Generate interface name from a Bubble data type name
+ * e.g., "order_item" -> "OrderItem"
+ */
+export function dataTypeToInterfaceName(typeName: string): string {
+  return toPascalCase(typeName.trim().replace(/\s+/g, '_'));
+}
+
+/**
+ * Generate Zod schema name from a Bubble data type name
+ * e.g., "order_item" -> "OrderItemSchema"
+ */
+export function dataTypeToSchemaName(typeName: string): string {
+  return `${dataTypeToInterfaceName(typeName)}Schema`;
+}
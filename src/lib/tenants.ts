@@ -0,0 +1,414 @@
+/**
+ * Bubble App (Tenant) Registry
+ *
+ * Maps Bubble app names to their own signing secret, token lifetimes and
+ * allowed origins, so several Bubble apps can share one deployment.
+ *
+ * Apps are loaded from the BUBBLE_APPS environment variable (JSON):
+ *
+ *   BUBBLE_APPS='{
+ *     "creatorcore": { "secret": "...", "allowedOrigins": ["https://app.creatorcore.co"] },
+ *     "partner-app": { "secret": "...", "accessTokenExpiry": 900 }
+ *   }'
+ *
+ * When no apps are registered, the global JWT_SECRET is used for every request
+ * and ALLOWED_ORIGINS (comma-separated) restricts browser origins.
+ *
+ * Allowed origins may use a wildcard subdomain, e.g. "https://*.bubbleapps.io".
+ *
+ * Bubble tokens are verified with the app's secret unless `jwksUrl` or
+ * `jwksFile` is set (BUBBLE_JWKS_URL / BUBBLE_JWKS_FILE in single-app mode),
+ * in which case they must be RS256/ES256 tokens signed by a key in that JWKS.
+ *
+ * Bubble token claim checks (issuer, audience, max age, clock tolerance and
+ * one-time use) default to the BUBBLE_JWT_* environment variables and can be
+ * overridden per app.
+ *
+ * Each app's tokens are signed with its own secret, so server-side Bubble
+ * calls made for a token (the workflow proxy) go to that app's own `baseUrl`
+ * with its `apiKey`, never to BUBBLE_BASE_URL.
+ */
+
+import { z } from 'zod';
+import { ConfigurationError, ValidationError } from '@/lib/errors';
+import type { BubbleJwksSource } from '@/lib/keys';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Header Bubble sends to identify which app a request comes from
+ */
+export const BUBBLE_APP_HEADER = 'X-Bubble-App-Name';
+
+/**
+ * Configuration for a single Bubble app
+ */
+export interface BubbleAppConfig {
+  /** Bubble app name, matched against X-Bubble-App-Name and the `app` claim */
+  name: string;
+
+  /** HMAC secret shared with this Bubble app (at least 32 characters) */
+  secret: string;
+
+  /** Access token lifetime in seconds (defaults to ACCESS_TOKEN_EXPIRY) */
+  accessTokenExpiry?: number;
+
+  /** Refresh token lifetime in seconds (defaults to REFRESH_TOKEN_EXPIRY) */
+  refreshTokenExpiry?: number;
+
+  /** Origins allowed to call the API for this app (any origin if omitted) */
+  allowedOrigins?: string[];
+
+  /** Verify Bubble tokens against this JWKS URL instead of the secret */
+  jwksUrl?: string;
+
+  /** Verify Bubble tokens against this local JWKS file instead of the secret */
+  jwksFile?: string;
+
+  /** Accepted `iss` value(s) for Bubble tokens (defaults to BUBBLE_JWT_ISSUER) */
+  issuer?: string | string[];
+
+  /** Accepted `aud` value(s) for Bubble tokens (defaults to BUBBLE_JWT_AUDIENCE) */
+  audience?: string | string[];
+
+  /** Maximum Bubble token age in seconds, based on `iat` (defaults to BUBBLE_JWT_MAX_AGE) */
+  maxTokenAge?: number;
+
+  /** Allowed clock drift in seconds (defaults to BUBBLE_JWT_CLOCK_TOLERANCE) */
+  clockTolerance?: number;
+
+  /** Require a `jti` and reject tokens exchanged before (defaults to BUBBLE_JWT_ONE_TIME_USE) */
+  oneTimeUse?: boolean;
+
+  /** Bubble app URL the workflow proxy calls for this app (e.g., "https://app.creatorcore.co/version-test") */
+  baseUrl?: string;
+
+  /** Bubble API key for `baseUrl` (required with it) */
+  apiKey?: string;
+}
+
+/**
+ * Claim checks applied to incoming Bubble tokens
+ */
+export interface BubbleTokenPolicy {
+  /** Accepted `iss` values, or undefined to accept any issuer */
+  issuer?: string[];
+
+  /** Accepted `aud` values, or undefined to accept any audience */
+  audience?: string[];
+
+  /** Maximum token age in seconds, or undefined for no limit */
+  maxTokenAge?: number;
+
+  /** Allowed clock drift in seconds */
+  clockTolerance: number;
+
+  /** Whether each `jti` may only be exchanged once */
+  oneTimeUse: boolean;
+}
+
+/**
+ * A resolved Bubble app, ready for signing and verification
+ */
+export interface BubbleApp {
+  /** App name, or null when running on the global JWT_SECRET without an app */
+  name: string | null;
+
+  /** Signing secret encoded for the jose library */
+  secret: Uint8Array;
+
+  /** Access token lifetime in seconds */
+  accessTokenExpiry: number;
+
+  /** Refresh token lifetime in seconds */
+  refreshTokenExpiry: number;
+
+  /** Allowed origins, or null to allow any origin */
+  allowedOrigins: string[] | null;
+
+  /** JWKS for verifying Bubble tokens, or null to use the secret */
+  bubbleJwks: BubbleJwksSource | null;
+
+  /** Claim checks for Bubble tokens */
+  bubbleTokenPolicy: BubbleTokenPolicy;
+
+  /** The app's own Bubble backend, or null if none is registered */
+  backend: { baseUrl: string; apiKey: string } | null;
+}
+
+const bubbleAppEntrySchema = z.object({
+  secret: z.string(),
+  accessTokenExpiry: z.number().int().positive().optional(),
+  refreshTokenExpiry: z.number().int().positive().optional(),
+  allowedOrigins: z.array(z.string()).optional(),
+  jwksUrl: z.string().url().optional(),
+  jwksFile: z.string().optional(),
+  issuer: z.union([z.string(), z.array(z.string())]).optional(),
+  audience: z.union([z.string(), z.array(z.string())]).optional(),
+  maxTokenAge: z.number().int().positive().optional(),
+  clockTolerance: z.number().int().nonnegative().optional(),
+  oneTimeUse: z.boolean().optional(),
+  baseUrl: z.string().url().optional(),
+  apiKey: z.string().optional(),
+}).refine((entry) => !entry.baseUrl === !entry.apiKey, {
+  message: 'baseUrl and apiKey must be set together',
+});
+
+const bubbleAppsSchema = z.record(z.string(), bubbleAppEntrySchema);
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+let registry: Map<string, BubbleAppConfig> | null = null;
+
+/**
+ * Load the registry from BUBBLE_APPS on first use
+ */
+function getRegistry(): Map<string, BubbleAppConfig> {
+  if (registry) {
+    return registry;
+  }
+
+  registry = new Map();
+  const raw = process.env.BUBBLE_APPS;
+  if (!raw) {
+    return registry;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ConfigurationError('BUBBLE_APPS environment variable is not valid JSON');
+  }
+
+  const result = bubbleAppsSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ConfigurationError(`BUBBLE_APPS environment variable is invalid: ${result.error.message}`);
+  }
+
+  for (const [name, entry] of Object.entries(result.data)) {
+    registry.set(name, { name, ...entry });
+  }
+
+  return registry;
+}
+
+/**
+ * Register (or replace) a Bubble app at runtime
+ */
+export function registerBubbleApp(config: BubbleAppConfig): void {
+  getRegistry().set(config.name, config);
+}
+
+/**
+ * List the names of all registered Bubble apps
+ */
+export function listBubbleApps(): string[] {
+  return Array.from(getRegistry().keys());
+}
+
+/**
+ * Encode a secret for jose, enforcing the minimum length
+ */
+function encodeSecret(secret: string, label: string): Uint8Array {
+  if (secret.length < 32) {
+    throw new ConfigurationError(`${label} must be at least 32 characters long`);
+  }
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Pick the Bubble token JWKS source, preferring a URL over a file
+ */
+function toJwksSource(url?: string, file?: string): BubbleJwksSource | null {
+  if (url) {
+    return { url };
+  }
+  if (file) {
+    return { file };
+  }
+  return null;
+}
+
+/**
+ * Normalize a single value or list to a list (undefined stays undefined)
+ */
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Parse a comma-separated environment variable into a list
+ */
+function envList(name: string): string[] | undefined {
+  const raw = process.env[name];
+  if (!raw) {
+    return undefined;
+  }
+  return raw.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a numeric environment variable (seconds)
+ */
+function envSeconds(name: string): number | undefined {
+  const raw = process.env[name];
+  return raw ? parseInt(raw, 10) : undefined;
+}
+
+/**
+ * Build the Bubble token policy from app overrides and BUBBLE_JWT_* defaults
+ */
+function toTokenPolicy(config: Partial<BubbleAppConfig> = {}): BubbleTokenPolicy {
+  return {
+    issuer: toList(config.issuer) ?? envList('BUBBLE_JWT_ISSUER'),
+    audience: toList(config.audience) ?? envList('BUBBLE_JWT_AUDIENCE'),
+    maxTokenAge: config.maxTokenAge ?? envSeconds('BUBBLE_JWT_MAX_AGE'),
+    clockTolerance: config.clockTolerance ?? envSeconds('BUBBLE_JWT_CLOCK_TOLERANCE') ?? 0,
+    oneTimeUse: config.oneTimeUse ?? process.env.BUBBLE_JWT_ONE_TIME_USE === 'true',
+  };
+}
+
+/**
+ * Resolve the signing configuration for a Bubble app
+ *
+ * @param appName - App name from the X-Bubble-App-Name header or `app` claim
+ * @returns The registered app, or the global JWT_SECRET when no apps are registered
+ * @throws ValidationError (code UNKNOWN_APP) if apps are registered and `appName` is missing or unknown
+ * @throws ConfigurationError if the app's secret or JWT_SECRET is missing or too short
+ */
+export function getBubbleApp(appName?: string | null): BubbleApp {
+  const apps = getRegistry();
+  const defaultAccessExpiry = parseInt(process.env.ACCESS_TOKEN_EXPIRY || '3600', 10);
+  const defaultRefreshExpiry = parseInt(process.env.REFRESH_TOKEN_EXPIRY || '1209600', 10);
+
+  if (apps.size > 0) {
+    if (!appName) {
+      throw new ValidationError(
+        `Missing Bubble app name (${BUBBLE_APP_HEADER} header or app claim)`,
+        { code: 'UNKNOWN_APP' }
+      );
+    }
+
+    const config = apps.get(appName);
+    if (!config) {
+      throw new ValidationError(`Unknown Bubble app: ${appName}`, { code: 'UNKNOWN_APP' });
+    }
+
+    return {
+      name: config.name,
+      secret: encodeSecret(config.secret, `Secret for Bubble app "${config.name}"`),
+      accessTokenExpiry: config.accessTokenExpiry ?? defaultAccessExpiry,
+      refreshTokenExpiry: config.refreshTokenExpiry ?? defaultRefreshExpiry,
+      allowedOrigins: config.allowedOrigins ?? null,
+      bubbleJwks: toJwksSource(config.jwksUrl, config.jwksFile),
+      bubbleTokenPolicy: toTokenPolicy(config),
+      backend:
+        config.baseUrl && config.apiKey ? { baseUrl: config.baseUrl, apiKey: config.apiKey } : null,
+    };
+  }
+
+  // Single-tenant mode: one global secret for every app
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new ConfigurationError('JWT_SECRET environment variable is not set');
+  }
+
+  return {
+    name: appName || null,
+    secret: encodeSecret(secret, 'JWT_SECRET'),
+    accessTokenExpiry: defaultAccessExpiry,
+    refreshTokenExpiry: defaultRefreshExpiry,
+    allowedOrigins: envList('ALLOWED_ORIGINS') ?? null,
+    bubbleJwks: toJwksSource(process.env.BUBBLE_JWKS_URL, process.env.BUBBLE_JWKS_FILE),
+    bubbleTokenPolicy: toTokenPolicy(),
+    backend: null,
+  };
+}
+
+/**
+ * Read the Bubble app name from a request's X-Bubble-App-Name header
+ */
+export function getRequestAppName(request: Request): string | null {
+  return request.headers.get(BUBBLE_APP_HEADER) || null;
+}
+
+/**
+ * Get the origins allowed for an app, without resolving its secret
+ *
+ * When the app isn't known (e.g., a CORS preflight, which carries no
+ * X-Bubble-App-Name header), returns the origins allowed for any app.
+ *
+ * @returns The allowlist, or null when any origin is allowed
+ */
+export function getAllowedOrigins(appName?: string | null): string[] | null {
+  const apps = getRegistry();
+
+  if (apps.size === 0) {
+    return envList('ALLOWED_ORIGINS') ?? null;
+  }
+
+  const config = appName ? apps.get(appName) : undefined;
+  if (config) {
+    return config.allowedOrigins ?? null;
+  }
+
+  const origins: string[] = [];
+  for (const app of apps.values()) {
+    if (!app.allowedOrigins) {
+      return null;
+    }
+    origins.push(...app.allowedOrigins);
+  }
+  return origins;
+}
+
+/**
+ * Check an origin against an allowlist
+ *
+ * Entries are exact origins ("https://app.creatorcore.co"), wildcard
+ * subdomains ("https://*.creatorcore.co", which doesn't match the bare
+ * domain), or "*" for any origin.
+ */
+export function matchesAllowedOrigin(origin: string, allowedOrigins: string[]): boolean {
+  const candidate = origin.toLowerCase();
+
+  return allowedOrigins.some((entry) => {
+    const pattern = entry.toLowerCase().replace(/\/$/, '');
+    if (pattern === '*' || pattern === candidate) {
+      return true;
+    }
+
+    const wildcard = pattern.indexOf('://*.');
+    if (wildcard === -1) {
+      return false;
+    }
+
+    const scheme = pattern.slice(0, wildcard + 3);
+    const suffix = pattern.slice(wildcard + 4);
+    if (!candidate.startsWith(scheme) || !candidate.endsWith(suffix)) {
+      return false;
+    }
+
+    const subdomain = candidate.slice(scheme.length, candidate.length - suffix.length);
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(subdomain);
+  });
+}
+
+/**
+ * Check whether an origin may call the API on behalf of an app
+ * Requests without an Origin header (server-to-server calls) are not restricted.
+ */
+export function isOriginAllowed(app: BubbleApp, origin: string | null | undefined): boolean {
+  if (!app.allowedOrigins || !origin) {
+    return true;
+  }
+  return matchesAllowedOrigin(origin, app.allowedOrigins);
+}
@@ -0,0 +1,78 @@
+/**
+ * Token Replay Store
+ *
+ * Remembers the `jti` of Bubble tokens that have already been exchanged, so
+ * apps with one-time-use enforcement can reject a captured token replayed
+ * before it expires.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Storage backend for consumed token IDs.
+ * Implement this to persist them somewhere shared across instances.
+ */
+export interface TokenReplayStore {
+  /**
+   * Record a token ID as used
+   * @param key - The token ID, namespaced by app
+   * @param expiresAt - The token's expiration (seconds since epoch); the entry can be dropped after this
+   * @returns false if the token ID was already used (replay detected)
+   */
+  consume(key: string, expiresAt: number): Promise<boolean>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Process-local replay store.
+ * State is lost on restart and not shared between serverless instances.
+ */
+export class InMemoryTokenReplayStore implements TokenReplayStore {
+  private consumed: Map<string, number> = new Map();
+
+  async consume(key: string, expiresAt: number): Promise<boolean> {
+    this.prune();
+    if (this.consumed.has(key)) {
+      return false;
+    }
+    this.consumed.set(key, expiresAt);
+    return true;
+  }
+
+  /**
+   * Drop entries for tokens that have expired anyway
+   */
+  private prune(): void {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [key, expiresAt] of this.consumed) {
+      if (expiresAt <= now) {
+        this.consumed.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Store Registry
+// ============================================================================
+
+let tokenReplayStore: TokenReplayStore = new InMemoryTokenReplayStore();
+
+/**
+ * Get the active token replay store
+ */
+export function getTokenReplayStore(): TokenReplayStore {
+  return tokenReplayStore;
+}
+
+/**
+ * Replace the active token replay store (e.g., with a database-backed one)
+ */
+export function setTokenReplayStore(store: TokenReplayStore): void {
+  tokenReplayStore = store;
+}
@@ -0,0 +1,277 @@
+/**
+ * User Identity Store
+ *
+ * Maps Bubble users to stable local user IDs. The first token exchange for a
+ * Bubble user (per app) creates a local user; later exchanges and refreshes
+ * update their email and last-seen time.
+ */
+
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { ConfigurationError } from '@/lib/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A local user linked to a Bubble user
+ */
+export interface UserIdentity {
+  /** Local user ID (used as the access token `sub`) */
+  id: string;
+
+  /** Bubble user ID */
+  bubbleUserId: string;
+
+  /** Bubble app the user belongs to, or null in single-app mode */
+  appName: string | null;
+
+  /** Last known email */
+  email: string | null;
+
+  /** When the local user was created (ISO 8601) */
+  createdAt: string;
+
+  /** When the user last exchanged or refreshed a token (ISO 8601) */
+  lastSeenAt: string;
+}
+
+/**
+ * Details from a verified Bubble token used to find or create a user
+ */
+export interface UserIdentityInput {
+  bubbleUserId: string;
+  appName: string | null;
+  email?: string | null;
+}
+
+/**
+ * Storage backend for user identities.
+ * Implement this to keep users in your own database.
+ */
+export interface UserStore {
+  /** Look up a user by local ID */
+  findById(id: string): Promise<UserIdentity | null>;
+
+  /** Look up a user by Bubble ID within an app */
+  findByBubbleId(appName: string | null, bubbleUserId: string): Promise<UserIdentity | null>;
+
+  /**
+   * Find the user for a Bubble ID, creating one on first sight,
+   * and record their latest email and last-seen time
+   */
+  upsert(input: UserIdentityInput): Promise<UserIdentity>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Process-local user store.
+ * State is lost on restart, so local IDs are only stable within one process.
+ */
+export class InMemoryUserStore implements UserStore {
+  private users: Map<string, UserIdentity> = new Map();
+  private byBubbleId: Map<string, string> = new Map();
+
+  async findById(id: string): Promise<UserIdentity | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByBubbleId(
+    appName: string | null,
+    bubbleUserId: string
+  ): Promise<UserIdentity | null> {
+    const id = this.byBubbleId.get(bubbleKey(appName, bubbleUserId));
+    return id ? this.findById(id) : null;
+  }
+
+  async upsert(input: UserIdentityInput): Promise<UserIdentity> {
+    const key = bubbleKey(input.appName, input.bubbleUserId);
+    const now = new Date().toISOString();
+    const existingId = this.byBubbleId.get(key);
+    const existing = existingId ? this.users.get(existingId) : undefined;
+
+    if (existing) {
+      existing.email = input.email ?? existing.email;
+      existing.lastSeenAt = now;
+      return { ...existing };
+    }
+
+    const user: UserIdentity = {
+      id: crypto.randomUUID(),
+      bubbleUserId: input.bubbleUserId,
+      appName: input.appName,
+      email: input.email ?? null,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+    this.users.set(user.id, user);
+    this.byBubbleId.set(key, user.id);
+    return { ...user };
+  }
+}
+
+function bubbleKey(appName: string | null, bubbleUserId: string): string {
+  return `${appName ?? ''}:${bubbleUserId}`;
+}
+
+// ============================================================================
+// SQLite Store
+// ============================================================================
+
+interface UserRow {
+  id: string;
+  bubble_user_id: string;
+  app_name: string;
+  email: string | null;
+  created_at: string;
+  last_seen_at: string;
+}
+
+function rowToIdentity(row: UserRow): UserIdentity {
+  return {
+    id: row.id,
+    bubbleUserId: row.bubble_user_id,
+    // Single-app users are stored with an empty app name so the unique index applies
+    appName: row.app_name === '' ? null : row.app_name,
+    email: row.email,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+  };
+}
+
+/**
+ * User store backed by a local SQLite file, using Node's built-in `node:sqlite`
+ * (Node.js 22.13 or later; 22.5 to 22.12 need `--experimental-sqlite`).
+ * Suitable for single-host deployments with a persistent disk.
+ */
+export class SqliteUserStore implements UserStore {
+  private filePath: string;
+  private db: Promise<DatabaseSync> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath === ':memory:' ? filePath : path.resolve(filePath);
+  }
+
+  async findById(id: string): Promise<UserIdentity | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT * FROM user_identities WHERE id = ?').get(id);
+    return row ? rowToIdentity(row as unknown as UserRow) : null;
+  }
+
+  async findByBubbleId(
+    appName: string | null,
+    bubbleUserId: string
+  ): Promise<UserIdentity | null> {
+    const db = await this.open();
+    const row = db
+      .prepare('SELECT * FROM user_identities WHERE app_name = ? AND bubble_user_id = ?')
+      .get(appName ?? '', bubbleUserId);
+    return row ? rowToIdentity(row as unknown as UserRow) : null;
+  }
+
+  async upsert(input: UserIdentityInput): Promise<UserIdentity> {
+    const db = await this.open();
+    const now = new Date().toISOString();
+
+    const row = db
+      .prepare(
+        `INSERT INTO user_identities (id, bubble_user_id, app_name, email, created_at, last_seen_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (app_name, bubble_user_id) DO UPDATE SET
+           email = COALESCE(excluded.email, user_identities.email),
+           last_seen_at = excluded.last_seen_at
+         RETURNING *`
+      )
+      .get(
+        crypto.randomUUID(),
+        input.bubbleUserId,
+        input.appName ?? '',
+        input.email ?? null,
+        now,
+        now
+      );
+
+    return rowToIdentity(row as unknown as UserRow);
+  }
+
+  /**
+   * Open the database on first use
+   */
+  private open(): Promise<DatabaseSync> {
+    if (!this.db) {
+      this.db = this.connect().catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Connect and create the schema if needed
+   * @throws ConfigurationError if this Node.js version has no `node:sqlite`
+   */
+  private async connect(): Promise<DatabaseSync> {
+    // Loaded lazily so deployments that don't use SQLite don't need node:sqlite
+    let sqlite: typeof import('node:sqlite');
+    try {
+      sqlite = await import('node:sqlite');
+    } catch (error) {
+      throw new ConfigurationError(
+        'USER_STORE_SQLITE_PATH needs node:sqlite (Node.js 22.13 or later, or 22.5 with --experimental-sqlite)',
+        { cause: error }
+      );
+    }
+    const { DatabaseSync } = sqlite;
+
+    if (this.filePath !== ':memory:') {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+
+    const db = new DatabaseSync(this.filePath);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS user_identities (
+        id TEXT PRIMARY KEY,
+        bubble_user_id TEXT NOT NULL,
+        app_name TEXT NOT NULL DEFAULT '',
+        email TEXT,
+        created_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        UNIQUE (app_name, bubble_user_id)
+      )
+    `);
+
+    return db;
+  }
+}
+
+// ============================================================================
+// Store Registry
+// ============================================================================
+
+let userStore: UserStore | null = null;
+
+/**
+ * Get the active user store.
+ * Uses SQLite when USER_STORE_SQLITE_PATH is set, otherwise in-memory.
+ */
+export function getUserStore(): UserStore {
+  if (!userStore) {
+    const filePath = process.env.USER_STORE_SQLITE_PATH;
+    userStore = filePath ? new SqliteUserStore(filePath) : new InMemoryUserStore();
+  }
+  return userStore;
+}
+
+/**
+ * Replace the active user store (e.g., with one backed by your database)
+ */
+export function setUserStore(store: UserStore): void {
+  userStore = store;
+}
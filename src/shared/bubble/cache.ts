@@ -0,0 +1,317 @@
+/**
+ * Response Cache
+ *
+ * Opt-in caching for read-only workflow and Data API calls, shared by the
+ * server and the browser:
+ *
+ * - Fresh entries (younger than `ttlMs`) are returned without calling Bubble.
+ * - Stale entries within `staleWhileRevalidateMs` are returned immediately
+ *   while a background call refreshes them.
+ * - Identical calls in flight at the same time share one request.
+ * - Entries carry tags, and `invalidateTag()` drops every entry with a tag.
+ *
+ *   const cache = getResponseCache();
+ *   const profile = await cache.fetch(
+ *     'workflow:get_user_profile:{"user_id":"123"}',
+ *     { ttlMs: 30_000, staleWhileRevalidateMs: 60_000, tags: ['user:123'] },
+ *     () => loadProfile('123')
+ *   );
+ *   await cache.invalidateTag('user:123');
+ *
+ * On the server the default cache is an in-memory LRU per process. In the
+ * browser it is kept on `window`, so every widget on a Bubble page shares it,
+ * even when they come from separate bundles.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How long a response may be cached
+ */
+export interface CachePolicy {
+  /** How long a response is fresh, in milliseconds */
+  ttlMs: number;
+
+  /** How long after going stale it may still be served while refreshing, in milliseconds */
+  staleWhileRevalidateMs?: number;
+
+  /** Tags for invalidating the entry */
+  tags?: readonly string[];
+}
+
+/**
+ * A cached response
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+
+  /** Fresh until (milliseconds since epoch) */
+  freshUntil: number;
+
+  /** Servable while revalidating until (milliseconds since epoch) */
+  staleUntil: number;
+
+  tags: string[];
+}
+
+/**
+ * Storage backend for cached responses.
+ * Implement this to share the cache somewhere outside the process.
+ */
+export interface CacheStore {
+  /** Get an entry, or null if there is none */
+  get(key: string): Promise<CacheEntry | null>;
+
+  /** Store an entry; it can be dropped after its `staleUntil` */
+  set(key: string, entry: CacheEntry): Promise<void>;
+
+  /** Drop an entry */
+  delete(key: string): Promise<void>;
+
+  /** Drop every entry with a tag */
+  deleteTag(tag: string): Promise<void>;
+
+  /** Drop every entry */
+  clear(): Promise<void>;
+}
+
+/** Entries kept by the default server cache */
+const SERVER_MAX_ENTRIES = 1000;
+
+/** Entries kept by the default page cache in the browser */
+const BROWSER_MAX_ENTRIES = 200;
+
+// ============================================================================
+// In-Memory LRU Store
+// ============================================================================
+
+/**
+ * In-memory store that evicts the least recently used entry when full.
+ * State is lost on restart and not shared between serverless instances.
+ */
+export class LruCacheStore implements CacheStore {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private readonly maxEntries: number = SERVER_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.staleUntil <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteTag(tag: string): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.includes(tag)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+/**
+ * Cache with stale-while-revalidate and in-flight de-duplication
+ */
+export class ResponseCache {
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+
+  // Bumped by every invalidation, so calls that started before it don't store their result
+  private generation = 0;
+
+  constructor(private readonly store: CacheStore = new LruCacheStore()) {}
+
+  /**
+   * Get a cached value, or load and cache it
+   *
+   * @param key - Identifies the request; identical requests must use the same key
+   * @param policy - How long the value may be cached
+   * @param load - Loads the value when it isn't cached; errors are not cached
+   */
+  async fetch<T>(key: string, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+    const entry = await this.store.get(key);
+    const now = Date.now();
+
+    if (entry && entry.freshUntil > now) {
+      return entry.value as T;
+    }
+
+    if (entry && entry.staleUntil > now) {
+      // Serve the stale value; a failed refresh leaves it in place
+      this.load(key, policy, load).catch(() => {});
+      return entry.value as T;
+    }
+
+    return this.load(key, policy, load);
+  }
+
+  /**
+   * Drop one cached value
+   */
+  async invalidate(key: string): Promise<void> {
+    this.generation++;
+    this.inFlight.delete(key);
+    await this.store.delete(key);
+  }
+
+  /**
+   * Drop every cached value with any of the given tags
+   */
+  async invalidateTag(...tags: string[]): Promise<void> {
+    this.generation++;
+    // In-flight calls may be for tagged entries; let later callers start fresh ones
+    this.inFlight.clear();
+    await Promise.all(tags.map((tag) => this.store.deleteTag(tag)));
+  }
+
+  /**
+   * Drop every cached value
+   */
+  async clear(): Promise<void> {
+    this.generation++;
+    this.inFlight.clear();
+    await this.store.clear();
+  }
+
+  /**
+   * Load a value, sharing the call with identical requests already in flight
+   */
+  private load<T>(key: string, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const generation = this.generation;
+    const promise: Promise<T> = Promise.resolve()
+      .then(load)
+      .then(async (value) => {
+        if (generation === this.generation) {
+          const now = Date.now();
+          await this.store.set(key, {
+            value,
+            freshUntil: now + policy.ttlMs,
+            staleUntil: now + policy.ttlMs + (policy.staleWhileRevalidateMs ?? 0),
+            tags: [...(policy.tags ?? [])],
+          });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === promise) {
+          this.inFlight.delete(key);
+        }
+      });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Serialize a value with object keys sorted, so equal params give equal keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Build the cache key for a workflow call
+ * @param scope - Separates calls to different Bubble backends (e.g., the base URL)
+ */
+export function workflowCacheKey(workflowName: string, params: unknown, scope?: string): string {
+  const key = `workflow:${workflowName}:${stableStringify(params ?? {})}`;
+  return scope ? `${scope}:${key}` : key;
+}
+
+/**
+ * Tag added to every cached call of a workflow
+ */
+export function workflowCacheTag(workflowName: string): string {
+  return `workflow:${workflowName}`;
+}
+
+/**
+ * Tag added to every cached Data API query of a type; writes to the type invalidate it
+ */
+export function dataTypeCacheTag(dataType: string): string {
+  return `data:${dataType}`;
+}
+
+// ============================================================================
+// Shared Instance
+// ============================================================================
+
+// A global symbol, so widget bundles loaded on the same page find the same cache
+const CACHE_SLOT = Symbol.for('creatorcore.responseCache');
+
+type CacheScope = typeof globalThis & { [CACHE_SLOT]?: ResponseCache };
+
+/**
+ * Get the shared cache: per process on the server, per page in the browser
+ */
+export function getResponseCache(): ResponseCache {
+  const scope = globalThis as CacheScope;
+  if (!scope[CACHE_SLOT]) {
+    const maxEntries = typeof window === 'undefined' ? SERVER_MAX_ENTRIES : BROWSER_MAX_ENTRIES;
+    scope[CACHE_SLOT] = new ResponseCache(new LruCacheStore(maxEntries));
+  }
+  return scope[CACHE_SLOT];
+}
+
+/**
+ * Replace the shared cache (e.g., with one backed by a shared store)
+ */
+export function setResponseCache(cache: ResponseCache): void {
+  (globalThis as CacheScope)[CACHE_SLOT] = cache;
+}
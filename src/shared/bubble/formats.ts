@@ -0,0 +1,98 @@
+/**
+ * Bubble Value Formats
+ *
+ * Branded types and Zod schemas for the shapes Bubble returns that plain
+ * `string` / `number` would hide: unique ids, file URLs, dates as epoch
+ * milliseconds and geographic addresses. Types generated by workflow and
+ * data type discovery use them, so a thing reference can't be mixed up with
+ * arbitrary text:
+ *
+ *   const PostSchema = z.object({ author: BubbleIdSchema, title: z.string() });
+ *   type Post = z.output<typeof PostSchema>;
+ *
+ *   function loadUser(id: BubbleId) { ... }
+ *   loadUser(post.author); // OK
+ *   loadUser(post.title);  // Type error
+ *
+ *   if (isBubbleId(value)) loadUser(value);
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+/** Unique id: creation time in milliseconds, "x", then a random number */
+export const BUBBLE_ID_PATTERN = /^\d{13}x\d{10,20}$/;
+
+/** Uploaded file: protocol-relative URL, or a URL on Bubble's file storage */
+export const BUBBLE_FILE_PATTERN =
+  /^(?:\/\/[^\s/]+\.[^\s/]+\/\S+|https?:\/\/(?:[^\s/]+\.)?(?:cdn\.bubble\.io|s3\.amazonaws\.com\/appforest_uf)\/\S+)$/i;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Unique id of a thing (e.g., "1696012345678x123456789012345678")
+ */
+export const BubbleIdSchema = z
+  .string()
+  .regex(BUBBLE_ID_PATTERN, 'Expected a Bubble unique id')
+  .brand<'BubbleId'>();
+
+/**
+ * URL of an uploaded file or image (e.g., "//s3.amazonaws.com/appforest_uf/f1/photo.png")
+ */
+export const BubbleFileUrlSchema = z
+  .string()
+  .regex(BUBBLE_FILE_PATTERN, 'Expected a Bubble file URL')
+  .brand<'BubbleFileUrl'>();
+
+/**
+ * Date as milliseconds since the epoch, as workflows return it
+ */
+export const BubbleDateSchema = z
+  .int()
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), 'Expected epoch milliseconds')
+  .brand<'BubbleDate'>();
+
+/**
+ * Geographic address
+ */
+export const BubbleGeoAddressSchema = z.object({
+  address: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+});
+
+export type BubbleId = z.output<typeof BubbleIdSchema>;
+export type BubbleFileUrl = z.output<typeof BubbleFileUrlSchema>;
+export type BubbleDate = z.output<typeof BubbleDateSchema>;
+export type BubbleGeoAddress = z.output<typeof BubbleGeoAddressSchema>;
+
+// ============================================================================
+// Type Guards
+// ============================================================================
+
+/**
+ * Check whether a value is a Bubble unique id
+ */
+export function isBubbleId(value: unknown): value is BubbleId {
+  return typeof value === 'string' && BUBBLE_ID_PATTERN.test(value);
+}
+
+/**
+ * Check whether a value is a Bubble file URL
+ */
+export function isBubbleFileUrl(value: unknown): value is BubbleFileUrl {
+  return typeof value === 'string' && BUBBLE_FILE_PATTERN.test(value);
+}
+
+/**
+ * Check whether a value is a Bubble geographic address
+ */
+export function isBubbleGeoAddress(value: unknown): value is BubbleGeoAddress {
+  return BubbleGeoAddressSchema.safeParse(value).success;
+}
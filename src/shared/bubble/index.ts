@@ -12,6 +12,47 @@ export {
 
 export { BubbleEventEmitter, type EventEmitterOptions } from './event-emitter';
 
+export {
+  getResponseCache,
+  setResponseCache,
+  ResponseCache,
+  LruCacheStore,
+  workflowCacheKey,
+  workflowCacheTag,
+  dataTypeCacheTag,
+  type CachePolicy,
+  type CacheEntry,
+  type CacheStore,
+} from './cache';
+
+export {
+  BubbleIdSchema,
+  BubbleFileUrlSchema,
+  BubbleDateSchema,
+  BubbleGeoAddressSchema,
+  BUBBLE_ID_PATTERN,
+  BUBBLE_FILE_PATTERN,
+  isBubbleId,
+  isBubbleFileUrl,
+  isBubbleGeoAddress,
+  type BubbleId,
+  type BubbleFileUrl,
+  type BubbleDate,
+  type BubbleGeoAddress,
+} from './formats';
+
+export {
+  createWorkflowClient,
+  type WorkflowCallError,
+  type WorkflowClient,
+  type WorkflowClientOptions,
+  type WorkflowDefinition,
+  type WorkflowMethod,
+  type WorkflowRegistry,
+  type WorkflowResult,
+  type WorkflowServices,
+} from './workflow-client';
+
 export type {
   BubbleServices,
   BubbleUser,
@@ -20,5 +61,9 @@ export type {
   BubbleDataResponse,
   TokenExchangeRequest,
   TokenExchangeResponse,
+  TokenRefreshRequest,
+  LogoutRequest,
+  SessionInfo,
+  TokenIntrospectionResponse,
   BubbleJWTPayload,
 } from './types';
@@ -99,11 +99,11 @@ export interface ApiResponse<T = unknown> {
 
 /**
  * Bubble workflow response
+ * Failed calls throw (see callBubbleWorkflow), so this is always a success.
  */
 export interface BubbleWorkflowResponse {
-  status: 'success' | 'error';
+  status: 'success';
   response?: unknown;
-  error?: string;
 }
 
 /**
@@ -140,6 +140,12 @@ export interface TokenExchangeResponse {
   /** Token expiration in seconds */
   expiresIn: number;
 
+  /** Single-use refresh token for obtaining a new token pair */
+  refreshToken: string;
+
+  /** Refresh token expiration in seconds */
+  refreshExpiresIn: number;
+
   /** User information (optional) */
   user?: {
     id: string;
@@ -148,6 +154,89 @@ export interface TokenExchangeResponse {
   };
 }
 
+/**
+ * Token refresh request body
+ */
+export interface TokenRefreshRequest {
+  /** Refresh token from a previous exchange or refresh */
+  refreshToken: string;
+}
+
+/**
+ * Logout request body
+ */
+export interface LogoutRequest {
+  /** Refresh token whose family should also be revoked (optional) */
+  refreshToken?: string;
+}
+
+/**
+ * Current session, as returned by GET /api/auth/session
+ */
+export interface SessionInfo {
+  /** The signed-in user */
+  user: {
+    id: string;
+    email: string | null;
+    bubbleUserId: string | null;
+  };
+
+  /** Bubble app the token was issued for (null in single-app mode) */
+  app: string | null;
+
+  /** When the token was issued (ISO 8601) */
+  issuedAt: string;
+
+  /** When the token expires (ISO 8601) */
+  expiresAt: string;
+
+  /** Seconds until the token expires */
+  expiresIn: number;
+
+  /** Roles granted to the user */
+  roles: string[];
+
+  /** Scopes granted to the user */
+  scopes: string[];
+}
+
+/**
+ * Token introspection response (RFC 7662), as returned by POST /api/auth/introspect
+ */
+export interface TokenIntrospectionResponse {
+  /** Whether the token is currently valid; no other fields are set when false */
+  active: boolean;
+
+  /** Space-delimited scopes */
+  scope?: string;
+
+  /** Bubble app the token was issued for */
+  client_id?: string;
+
+  /** User email */
+  username?: string;
+
+  token_type?: 'Bearer';
+
+  /** Expiration (seconds since epoch) */
+  exp?: number;
+
+  /** Issued at (seconds since epoch) */
+  iat?: number;
+
+  /** Local user ID */
+  sub?: string;
+
+  /** Token ID */
+  jti?: string;
+
+  /** Roles granted to the user */
+  roles?: string[];
+
+  /** Bubble user ID */
+  bubble_user_id?: string;
+}
+
 /**
  * JWT payload structure from Bubble
  */
@@ -167,6 +256,12 @@ export interface BubbleJWTPayload {
   /** Bubble app name */
   app?: string;
 
+  /** Roles granted to the user (list or comma/space-delimited string) */
+  roles?: string[] | string;
+
+  /** Scopes granted to the user (space-delimited) */
+  scope?: string;
+
   /** Additional claims */
   [key: string]: unknown;
 }
@@ -0,0 +1,230 @@
+/**
+ * Typed Workflow Client
+ *
+ * Builds one method per BUBBLE_WORKFLOWS entry, with params and results typed
+ * from the entry's Zod schemas. Params are validated before the call and the
+ * response after it; failures come back as a result instead of throwing:
+ *
+ *   const workflows = createWorkflowClient(services);
+ *
+ *   const result = await workflows.getUserProfile({ user_id: '123' });
+ *   if (result.success) {
+ *     result.data.response.user.email;
+ *   } else {
+ *     result.error.code; // 'INVALID_PARAMS' | 'WORKFLOW_FAILED' | 'INVALID_RESPONSE'
+ *   }
+ *
+ * In widgets pass the services Bubble provides; on the server pass
+ * `createServerWorkflowServices()` from `@/lib/bubble`.
+ *
+ * Entries with a `cache` policy are served from the shared response cache
+ * (see ./cache), keyed by workflow name and params.
+ */
+
+import type { z } from 'zod';
+import { BUBBLE_WORKFLOWS, type BubbleWorkflows } from '@/config/bubble-workflows';
+import {
+  getResponseCache,
+  workflowCacheKey,
+  workflowCacheTag,
+  type CachePolicy,
+  type ResponseCache,
+} from './cache';
+import type { BubbleServices } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The part of a registry entry the client needs
+ */
+export interface WorkflowDefinition {
+  /** The exact Bubble workflow name */
+  name: string;
+
+  /** Zod schema for the params */
+  paramsSchema: z.ZodType;
+
+  /** Zod schema for Bubble's response */
+  responseSchema: z.ZodType;
+
+  /** Safe to call twice with the same params (allows server-side retries) */
+  idempotent?: boolean;
+
+  /** Cache responses for read-only workflows (not cached if omitted) */
+  cache?: CachePolicy;
+
+  /** Server proxy: the caller needs at least one of these roles */
+  roles?: readonly string[];
+
+  /** Server proxy: the caller needs every one of these scopes (besides workflows:call) */
+  scopes?: readonly string[];
+
+  /** Server proxy: param set to the caller's Bubble user ID, replacing any value sent */
+  callerParam?: string;
+}
+
+/**
+ * A registry of workflows, keyed by method name
+ */
+export type WorkflowRegistry = Record<string, WorkflowDefinition>;
+
+/**
+ * Anything that can call a Bubble workflow by name
+ */
+export type WorkflowServices = Pick<BubbleServices, 'callBubbleWorkflow'>;
+
+/**
+ * Options for createWorkflowClient
+ */
+export interface WorkflowClientOptions {
+  /** Cache for entries with a `cache` policy (defaults to the shared cache; false disables it) */
+  cache?: ResponseCache | false;
+}
+
+/**
+ * Why a workflow call failed
+ */
+export interface WorkflowCallError {
+  /**
+   * INVALID_PARAMS: the params failed paramsSchema (Bubble wasn't called)
+   * WORKFLOW_FAILED: the call itself threw
+   * INVALID_RESPONSE: Bubble's response failed responseSchema
+   */
+  code: 'INVALID_PARAMS' | 'WORKFLOW_FAILED' | 'INVALID_RESPONSE';
+
+  /** Human-readable description */
+  message: string;
+
+  /** Schema issues, for INVALID_PARAMS and INVALID_RESPONSE */
+  issues?: z.ZodError['issues'];
+
+  /** The thrown error, for WORKFLOW_FAILED */
+  cause?: unknown;
+}
+
+/**
+ * Result of a workflow call
+ */
+export type WorkflowResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: WorkflowCallError };
+
+/**
+ * A client method; params are optional when the schema accepts an empty object
+ */
+export type WorkflowMethod<W extends WorkflowDefinition> =
+  {} extends z.input<W['paramsSchema']>
+    ? (params?: z.input<W['paramsSchema']>) => Promise<WorkflowResult<z.output<W['responseSchema']>>>
+    : (params: z.input<W['paramsSchema']>) => Promise<WorkflowResult<z.output<W['responseSchema']>>>;
+
+/**
+ * One method per registry key
+ */
+export type WorkflowClient<R extends WorkflowRegistry = BubbleWorkflows> = {
+  [K in keyof R]: WorkflowMethod<R[K]>;
+};
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Thrown inside a call when Bubble's response fails the schema, so it isn't cached
+ */
+class InvalidResponseError extends Error {
+  constructor(readonly issues: z.ZodError['issues']) {
+    super('Unexpected workflow response');
+  }
+}
+
+/**
+ * Call one workflow, validating both directions
+ */
+async function callWorkflow(
+  services: WorkflowServices,
+  workflow: WorkflowDefinition,
+  params: unknown,
+  cache: ResponseCache | false
+): Promise<WorkflowResult<unknown>> {
+  const parsedParams = workflow.paramsSchema.safeParse(params ?? {});
+  if (!parsedParams.success) {
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_PARAMS',
+        message: `Invalid params for workflow ${workflow.name}`,
+        issues: parsedParams.error.issues,
+      },
+    };
+  }
+
+  const call = async (): Promise<unknown> => {
+    const response = await services.callBubbleWorkflow(
+      workflow.name,
+      parsedParams.data as Record<string, unknown>
+    );
+    const parsedResponse = workflow.responseSchema.safeParse(response);
+    if (!parsedResponse.success) {
+      throw new InvalidResponseError(parsedResponse.error.issues);
+    }
+    return parsedResponse.data;
+  };
+
+  try {
+    const data =
+      cache && workflow.cache
+        ? await cache.fetch(
+            workflowCacheKey(workflow.name, parsedParams.data),
+            {
+              ...workflow.cache,
+              tags: [...(workflow.cache.tags ?? []), workflowCacheTag(workflow.name)],
+            },
+            call
+          )
+        : await call();
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof InvalidResponseError) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_RESPONSE',
+          message: `Workflow ${workflow.name} returned an unexpected response`,
+          issues: error.issues,
+        },
+      };
+    }
+    return {
+      success: false,
+      error: {
+        code: 'WORKFLOW_FAILED',
+        message: error instanceof Error ? error.message : `Workflow ${workflow.name} failed`,
+        cause: error,
+      },
+    };
+  }
+}
+
+/**
+ * Create a typed client for the workflow registry
+ *
+ * @param services - Services with a `callBubbleWorkflow` method
+ * @param registry - Workflows to expose (defaults to BUBBLE_WORKFLOWS)
+ * @param options - Cache to use for entries with a `cache` policy
+ */
+export function createWorkflowClient<R extends WorkflowRegistry = BubbleWorkflows>(
+  services: WorkflowServices,
+  registry: R = BUBBLE_WORKFLOWS as unknown as R,
+  options: WorkflowClientOptions = {}
+): WorkflowClient<R> {
+  const cache = options.cache ?? getResponseCache();
+  const client: Record<string, (params?: unknown) => Promise<WorkflowResult<unknown>>> = {};
+
+  for (const [key, workflow] of Object.entries(registry)) {
+    client[key] = (params) => callWorkflow(services, workflow, params, cache);
+  }
+
+  return client as WorkflowClient<R>;
+}